@@ -6,8 +6,15 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { MessageCircle, Sparkles, Shield, Zap } from "lucide-react";
+import { generateUserKeys, loadLocalKeyPair } from "@/lib/encryption";
+import { KeyRestoreForm } from "./KeyRestoreForm";
 
-export function AuthForm() {
+interface AuthFormProps {
+  keyRestoreUserId?: string;
+  onKeyRestoreComplete?: () => void;
+}
+
+export function AuthForm({ keyRestoreUserId, onKeyRestoreComplete }: AuthFormProps) {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [username, setUsername] = useState("");
@@ -18,7 +25,7 @@ export function AuthForm() {
   const handleSignUp = async () => {
     setLoading(true);
     try {
-      const { error } = await supabase.auth.signUp({
+      const { data, error } = await supabase.auth.signUp({
         email,
         password,
         options: {
@@ -36,6 +43,10 @@ export function AuthForm() {
           variant: "destructive",
         });
       } else {
+        // The key pair is created now; ChatLayout publishes it once there is a session
+        if (data.user && !loadLocalKeyPair(data.user.id)) {
+          await generateUserKeys(data.user.id);
+        }
         toast({
           title: "Welcome to ChatVibe! 🎉",
           description: "Account created successfully. Please check your email to verify your account.",
@@ -127,96 +138,100 @@ export function AuthForm() {
         </CardHeader>
         
         <CardContent className="space-y-6">
-          <Tabs defaultValue="signin" className="w-full">
-            <TabsList className="grid w-full grid-cols-2 bg-muted/50">
-              <TabsTrigger value="signin" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
-                Sign In
-              </TabsTrigger>
-              <TabsTrigger value="signup" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
-                Sign Up
-              </TabsTrigger>
-            </TabsList>
-            
-            <TabsContent value="signin" className="space-y-4 mt-6">
-              <div className="space-y-3">
-                <Input
-                  type="email"
-                  placeholder="Enter your email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="h-12 bg-background/50 border-border/50 focus:bg-background"
-                />
-                <Input
-                  type="password"
-                  placeholder="Enter your password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="h-12 bg-background/50 border-border/50 focus:bg-background"
-                />
-              </div>
-              <Button 
-                onClick={handleSignIn} 
-                className="w-full h-12 bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90 text-white font-semibold"
-                disabled={loading}
-              >
-                {loading ? (
-                  <div className="flex items-center space-x-2">
-                    <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full" />
-                    <span>Signing In...</span>
-                  </div>
-                ) : (
-                  "Sign In to ChatVibe"
-                )}
-              </Button>
-            </TabsContent>
-            
-            <TabsContent value="signup" className="space-y-4 mt-6">
-              <div className="space-y-3">
-                <Input
-                  type="text"
-                  placeholder="Choose a username"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  className="h-12 bg-background/50 border-border/50 focus:bg-background"
-                />
-                <Input
-                  type="text"
-                  placeholder="Your display name"
-                  value={displayName}
-                  onChange={(e) => setDisplayName(e.target.value)}
-                  className="h-12 bg-background/50 border-border/50 focus:bg-background"
-                />
-                <Input
-                  type="email"
-                  placeholder="Enter your email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="h-12 bg-background/50 border-border/50 focus:bg-background"
-                />
-                <Input
-                  type="password"
-                  placeholder="Create a strong password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="h-12 bg-background/50 border-border/50 focus:bg-background"
-                />
-              </div>
-              <Button 
-                onClick={handleSignUp} 
-                className="w-full h-12 bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90 text-white font-semibold"
-                disabled={loading}
-              >
-                {loading ? (
-                  <div className="flex items-center space-x-2">
-                    <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full" />
-                    <span>Creating Account...</span>
-                  </div>
-                ) : (
-                  "Join ChatVibe"
-                )}
-              </Button>
-            </TabsContent>
-          </Tabs>
+          {keyRestoreUserId ? (
+            <KeyRestoreForm userId={keyRestoreUserId} onComplete={() => onKeyRestoreComplete?.()} />
+          ) : (
+            <Tabs defaultValue="signin" className="w-full">
+              <TabsList className="grid w-full grid-cols-2 bg-muted/50">
+                <TabsTrigger value="signin" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+                  Sign In
+                </TabsTrigger>
+                <TabsTrigger value="signup" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+                  Sign Up
+                </TabsTrigger>
+              </TabsList>
+              
+              <TabsContent value="signin" className="space-y-4 mt-6">
+                <div className="space-y-3">
+                  <Input
+                    type="email"
+                    placeholder="Enter your email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="h-12 bg-background/50 border-border/50 focus:bg-background"
+                  />
+                  <Input
+                    type="password"
+                    placeholder="Enter your password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="h-12 bg-background/50 border-border/50 focus:bg-background"
+                  />
+                </div>
+                <Button 
+                  onClick={handleSignIn} 
+                  className="w-full h-12 bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90 text-white font-semibold"
+                  disabled={loading}
+                >
+                  {loading ? (
+                    <div className="flex items-center space-x-2">
+                      <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full" />
+                      <span>Signing In...</span>
+                    </div>
+                  ) : (
+                    "Sign In to ChatVibe"
+                  )}
+                </Button>
+              </TabsContent>
+              
+              <TabsContent value="signup" className="space-y-4 mt-6">
+                <div className="space-y-3">
+                  <Input
+                    type="text"
+                    placeholder="Choose a username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    className="h-12 bg-background/50 border-border/50 focus:bg-background"
+                  />
+                  <Input
+                    type="text"
+                    placeholder="Your display name"
+                    value={displayName}
+                    onChange={(e) => setDisplayName(e.target.value)}
+                    className="h-12 bg-background/50 border-border/50 focus:bg-background"
+                  />
+                  <Input
+                    type="email"
+                    placeholder="Enter your email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="h-12 bg-background/50 border-border/50 focus:bg-background"
+                  />
+                  <Input
+                    type="password"
+                    placeholder="Create a strong password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="h-12 bg-background/50 border-border/50 focus:bg-background"
+                  />
+                </div>
+                <Button 
+                  onClick={handleSignUp} 
+                  className="w-full h-12 bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90 text-white font-semibold"
+                  disabled={loading}
+                >
+                  {loading ? (
+                    <div className="flex items-center space-x-2">
+                      <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full" />
+                      <span>Creating Account...</span>
+                    </div>
+                  ) : (
+                    "Join ChatVibe"
+                  )}
+                </Button>
+              </TabsContent>
+            </Tabs>
+          )}
           
           <div className="text-center text-xs text-muted-foreground">
             By signing up, you agree to our Terms of Service and Privacy Policy.
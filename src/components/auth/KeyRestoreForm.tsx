@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound } from "lucide-react";
+import { replaceUserKeys } from "@/lib/encryption";
+import { InvalidPassphraseError, deleteKeyBackup, hasKeyBackup, restorePrivateKey } from "@/lib/key-backup";
+
+interface KeyRestoreFormProps {
+  userId: string;
+  onComplete: () => void;
+}
+
+export function KeyRestoreForm({ userId, onComplete }: KeyRestoreFormProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [hasBackup, setHasBackup] = useState<boolean | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    hasKeyBackup(userId)
+      .then(setHasBackup)
+      .catch((error) => console.error('Error checking key backup:', error));
+  }, [userId]);
+
+  const handleRestore = async () => {
+    setLoading(true);
+    try {
+      await restorePrivateKey(userId, passphrase);
+      toast({
+        title: "Keys restored 🔐",
+        description: "Your encrypted message history is available on this device",
+      });
+      onComplete();
+    } catch (error) {
+      console.error('Error restoring keys:', error);
+      toast({
+        title: "Error",
+        description: error instanceof InvalidPassphraseError ? error.message : "Failed to restore your keys",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartFresh = async () => {
+    setLoading(true);
+    try {
+      // The old backup holds a key that will no longer be published, so
+      // restoring it on another device would only fail later
+      await deleteKeyBackup(userId);
+      await replaceUserKeys(userId);
+      onComplete();
+    } catch (error) {
+      console.error('Error creating new keys:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create new keys",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && passphrase) {
+      handleRestore();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start space-x-3">
+        <KeyRound className="h-5 w-5 text-primary mt-0.5" />
+        <div>
+          <h3 className="font-medium">Restore your encryption keys</h3>
+          <p className="text-sm text-muted-foreground">
+            This browser doesn't have your keys yet. Enter your recovery passphrase to read your existing messages.
+          </p>
+          {hasBackup === false && (
+            <p className="text-sm text-destructive mt-1">
+              No backup was saved for this account. Sign in on a device that has your keys and back them up first.
+            </p>
+          )}
+        </div>
+      </div>
+      <Input
+        type="password"
+        placeholder="Recovery passphrase"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        onKeyPress={handleKeyPress}
+        className="h-12 bg-background/50 border-border/50 focus:bg-background"
+      />
+      <Button
+        onClick={handleRestore}
+        className="w-full h-12 bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90 text-white font-semibold"
+        disabled={loading || !passphrase || hasBackup === false}
+      >
+        {loading ? (
+          <div className="flex items-center space-x-2">
+            <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full" />
+            <span>Restoring...</span>
+          </div>
+        ) : (
+          "Restore Keys"
+        )}
+      </Button>
+      <Button variant="ghost" onClick={handleStartFresh} className="w-full" disabled={loading}>
+        Start fresh on this device
+      </Button>
+      <p className="text-xs text-center text-muted-foreground">
+        Starting fresh creates new keys and deletes the old backup. Messages encrypted with your old keys can't be read here.
+      </p>
+    </div>
+  );
+}
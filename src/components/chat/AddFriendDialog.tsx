@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { UserPlus } from "lucide-react";
+import { FriendRequestError, sendFriendRequest } from "@/lib/friends";
+
+interface AddFriendDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUserId: string;
+}
+
+export function AddFriendDialog({ open, onOpenChange, currentUserId }: AddFriendDialogProps) {
+  const [username, setUsername] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleSend = async () => {
+    setLoading(true);
+    try {
+      const result = await sendFriendRequest(currentUserId, username);
+      toast({
+        title: result === 'accepted' ? "You're now friends 🎉" : "Friend request sent ✨",
+        description: result === 'accepted'
+          ? `@${username.replace(/^@/, '')} had already asked to be friends`
+          : `We'll let you know when @${username.replace(/^@/, '')} accepts`,
+      });
+      setUsername("");
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error sending friend request:', error);
+      toast({
+        title: "Error",
+        description: error instanceof FriendRequestError ? error.message : "Failed to send friend request",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && username.trim()) {
+      handleSend();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <UserPlus className="h-5 w-5" />
+            <span>Add friend</span>
+          </DialogTitle>
+          <DialogDescription>
+            Send a friend request by username
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center space-x-2">
+          <Input
+            placeholder="@username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            onKeyPress={handleKeyPress}
+          />
+          <Button onClick={handleSend} disabled={loading || !username.trim()}>
+            {loading ? "Sending..." : "Send"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
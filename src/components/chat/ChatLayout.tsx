@@ -1,8 +1,20 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { ChatSidebar } from "./ChatSidebar";
 import { ChatWindow } from "./ChatWindow";
+import { Progress } from "@/components/ui/progress";
 import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
 import { MessageCircle } from "lucide-react";
+import { KeyMismatchError, ensureUserKeys } from "@/lib/encryption";
+import { migrateLegacyMessages, type MigrationProgress } from "@/lib/legacy-migration";
+import type { Group } from "@/lib/groups";
+import { fetchMutedIds } from "@/lib/mutes";
+import { requestNotificationPermission, showMessageNotification } from "@/lib/notifications";
+import { markMessagesDelivered } from "@/lib/receipts";
+import { syncSearchIndex } from "@/lib/search-index";
+import { startOutbox } from "@/lib/outbox";
+import { joinPresence } from "@/lib/presence";
+import { fetchOwnStatus, isDndActive, type StatusFields } from "@/lib/custom-status";
 
 interface Profile {
   id: string;
@@ -12,6 +24,10 @@ interface Profile {
   bio: string;
   status: string;
   avatar_url?: string;
+  status_emoji?: string | null;
+  status_text?: string | null;
+  status_expires_at?: string | null;
+  dnd_until?: string | null;
 }
 
 interface ChatLayoutProps {
@@ -20,77 +36,183 @@ interface ChatLayoutProps {
 
 export function ChatLayout({ currentUser }: ChatLayoutProps) {
   const [selectedProfile, setSelectedProfile] = useState<Profile | null>(null);
+  const [selectedGroup, setSelectedGroup] = useState<Group | null>(null);
+  const [migrationProgress, setMigrationProgress] = useState<MigrationProgress | null>(null);
+  const [mutedIds, setMutedIds] = useState<Set<string>>(new Set());
+  const [jumpRequest, setJumpRequest] = useState<{ messageId: string } | null>(null);
+  // Read from the realtime callback, which is subscribed once
+  const mutedIdsRef = useRef(mutedIds);
+  mutedIdsRef.current = mutedIds;
+  // Do Not Disturb holds back notifications until dnd_until passes
+  const ownStatusRef = useRef<StatusFields | null>(null);
+  const { toast } = useToast();
 
   useEffect(() => {
-    // Update user status to online when component mounts
-    updateUserStatus('online');
-
-    // Set up presence tracking for real-time status updates
-    const presenceChannel = supabase.channel('user-presence');
-    
-    presenceChannel
-      .on('presence', { event: 'sync' }, () => {
-        const newState = presenceChannel.presenceState();
-        console.log('Presence sync:', newState);
-      })
-      .on('presence', { event: 'join' }, ({ key, newPresences }) => {
-        console.log('User joined:', key, newPresences);
-      })
-      .on('presence', { event: 'leave' }, ({ key, leftPresences }) => {
-        console.log('User left:', key, leftPresences);
+    let cancelled = false;
+
+    // Make sure this device has a key pair and that it is published, then move
+    // any messages still on the shared legacy passphrase onto it
+    ensureUserKeys(currentUser.id)
+      .then(() => migrateLegacyMessages(currentUser.id, (progress) => {
+        if (!cancelled) setMigrationProgress({ ...progress });
+      }))
+      .then((progress) => {
+        if (cancelled) return;
+        setMigrationProgress(null);
+        if (progress.migrated > 0 && progress.completedAt) {
+          toast({
+            title: "Encryption upgraded 🔐",
+            description: `Re-encrypted ${progress.migrated} older messages with your new keys`,
+          });
+        }
+        // Catch the search index up on everything sent since this device last synced
+        syncSearchIndex(currentUser.id).catch((error) => {
+          console.error('Error syncing search index:', error);
+        });
       })
-      .subscribe(async (status) => {
-        if (status === 'SUBSCRIBED') {
-          // Track user presence
-          await presenceChannel.track({
-            user_id: currentUser.id,
-            online_at: new Date().toISOString(),
-            status: 'online'
+      .catch((error) => {
+        console.error('Error setting up encryption keys:', error);
+        if (cancelled) return;
+        setMigrationProgress(null);
+        // Another device replaced the key since this one checked
+        if (error instanceof KeyMismatchError) {
+          toast({
+            title: "Encryption keys changed",
+            description: "Reload to restore your keys from your backup",
+            variant: "destructive",
           });
         }
       });
 
-    // Update status to offline when user leaves
-    const handleBeforeUnload = () => {
-      updateUserStatus('offline');
+    return () => {
+      cancelled = true;
     };
+  }, [currentUser.id, toast]);
 
-    // Handle visibility change for better status tracking
-    const handleVisibilityChange = () => {
-      if (document.hidden) {
-        updateUserStatus('away');
-      } else {
-        updateUserStatus('online');
-      }
-    };
+  // Keeps sending queued messages in the background, whichever chat is open
+  useEffect(() => startOutbox(currentUser.id), [currentUser.id]);
 
-    window.addEventListener('beforeunload', handleBeforeUnload);
-    document.addEventListener('visibilitychange', handleVisibilityChange);
+  const loadMutes = useCallback(async () => {
+    try {
+      setMutedIds(await fetchMutedIds(currentUser.id));
+    } catch (error) {
+      console.error('Error fetching muted conversations:', error);
+    }
+  }, [currentUser.id]);
 
-    return () => {
-      updateUserStatus('offline');
-      presenceChannel.unsubscribe();
-      window.removeEventListener('beforeunload', handleBeforeUnload);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
+  const loadOwnStatus = useCallback(async () => {
+    try {
+      ownStatusRef.current = await fetchOwnStatus(currentUser.id);
+    } catch (error) {
+      console.error('Error fetching status:', error);
+    }
   }, [currentUser.id]);
 
-  const updateUserStatus = async (status: string) => {
+  // Catch up on delivery receipts for messages that arrived while signed out
+  const markRecentMessagesDelivered = useCallback(async () => {
     try {
-      await supabase
-        .from('profiles')
-        .update({ 
-          status, 
-          last_seen: new Date().toISOString() 
-        })
-        .eq('user_id', currentUser.id);
+      const { data, error } = await supabase
+        .from('direct_messages')
+        .select('id')
+        .neq('sender_id', currentUser.id)
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+      await markMessagesDelivered((data || []).map(message => message.id));
     } catch (error) {
-      console.error('Error updating user status:', error);
+      console.error('Error sending delivery receipts:', error);
     }
-  };
+  }, [currentUser.id]);
+
+  const handleIncomingMessage = useCallback(async (message: { id: string; sender_id: string; conversation_id: string | null }) => {
+    syncSearchIndex(currentUser.id).catch((error) => {
+      console.error('Error syncing search index:', error);
+    });
+    if (message.sender_id === currentUser.id) return;
+
+    markMessagesDelivered([message.id]).catch((error) => {
+      console.error('Error sending delivery receipt:', error);
+    });
+
+    if (!document.hidden) return;
+    if (mutedIdsRef.current.has(message.conversation_id ?? message.sender_id)) return;
+    if (isDndActive(ownStatusRef.current)) return;
+
+    const { data: sender } = await supabase
+      .from('profiles')
+      .select('username, display_name')
+      .eq('user_id', message.sender_id)
+      .maybeSingle();
+
+    const senderName = sender ? sender.display_name || sender.username : 'Someone';
+    showMessageNotification(
+      message.conversation_id ? `${senderName} in a group` : senderName,
+      'Sent you an encrypted message',
+      message.conversation_id ?? message.sender_id
+    );
+  }, [currentUser.id]);
+
+  useEffect(() => {
+    loadMutes();
+    loadOwnStatus();
+    requestNotificationPermission();
+    markRecentMessagesDelivered();
+
+    const mutesSubscription = supabase
+      .channel(`mutes-${currentUser.id}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'conversation_mutes', filter: `user_id=eq.${currentUser.id}` },
+        () => loadMutes()
+      )
+      .subscribe();
+
+    // Do Not Disturb can be switched on from another tab or device
+    const statusSubscription = supabase
+      .channel(`own-status-${currentUser.id}`)
+      .on('postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'profiles', filter: `user_id=eq.${currentUser.id}` },
+        (payload) => {
+          ownStatusRef.current = payload.new as StatusFields;
+        }
+      )
+      .subscribe();
+
+    // Row-level security limits this to messages the user can read
+    const incomingSubscription = supabase
+      .channel(`incoming-${currentUser.id}`)
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'direct_messages' },
+        (payload) => handleIncomingMessage(payload.new as { id: string; sender_id: string; conversation_id: string | null })
+      )
+      .subscribe();
+
+    return () => {
+      mutesSubscription.unsubscribe();
+      statusSubscription.unsubscribe();
+      incomingSubscription.unsubscribe();
+    };
+  }, [currentUser.id, loadMutes, loadOwnStatus, markRecentMessagesDelivered, handleIncomingMessage]);
+
+  // Status comes from the realtime presence channel; the profile is only
+  // written when the user's last tab goes away
+  useEffect(() => {
+    const leave = joinPresence(currentUser.id);
+    return () => {
+      leave();
+    };
+  }, [currentUser.id]);
 
   const handleSelectChat = (userId: string, profile: Profile) => {
+    setSelectedGroup(null);
     setSelectedProfile(profile);
+    setJumpRequest(null);
+  };
+
+  const handleSelectGroup = (group: Group) => {
+    setSelectedProfile(null);
+    setSelectedGroup(group);
+    setJumpRequest(null);
   };
 
   return (
@@ -98,13 +220,24 @@ export function ChatLayout({ currentUser }: ChatLayoutProps) {
       <ChatSidebar 
         currentUser={currentUser}
         onSelectChat={handleSelectChat}
+        onSelectGroup={handleSelectGroup}
         selectedUserId={selectedProfile?.user_id}
+        selectedGroupId={selectedGroup?.id}
+        mutedIds={mutedIds}
+        onOpenMessage={(messageId) => setJumpRequest({ messageId })}
       />
       
-      {selectedProfile ? (
+      {selectedProfile || selectedGroup ? (
         <ChatWindow 
+          key={selectedGroup?.id ?? selectedProfile?.user_id}
           currentUser={currentUser}
-          selectedProfile={selectedProfile}
+          selectedProfile={selectedProfile ?? undefined}
+          selectedGroup={selectedGroup ?? undefined}
+          onLeaveGroup={() => setSelectedGroup(null)}
+          muted={mutedIds.has(selectedGroup?.id ?? selectedProfile?.user_id)}
+          onMutedChange={loadMutes}
+          onUnfriend={() => setSelectedProfile(null)}
+          jumpRequest={jumpRequest}
         />
       ) : (
         <div className="flex-1 flex items-center justify-center text-center">
@@ -121,6 +254,19 @@ export function ChatLayout({ currentUser }: ChatLayoutProps) {
           </div>
         </div>
       )}
+
+      {migrationProgress && migrationProgress.total > 0 && (
+        <div className="fixed bottom-4 right-4 w-72 rounded-lg border border-border bg-card p-3 shadow-lg space-y-2">
+          <p className="text-sm font-medium">Upgrading message encryption…</p>
+          <Progress
+            value={(100 * (migrationProgress.migrated + migrationProgress.skipped + migrationProgress.failed)) / migrationProgress.total}
+            className="h-2"
+          />
+          <p className="text-xs text-muted-foreground">
+            {migrationProgress.migrated + migrationProgress.skipped + migrationProgress.failed} of {migrationProgress.total} messages
+          </p>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,14 +1,40 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card } from "@/components/ui/card";
+import { format, isToday } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
-import { Search, MessageCircle, Users, Settings, LogOut } from "lucide-react";
+import { Search, MessageCircle, Users, Settings, LogOut, UsersRound, UserPlus, Check, X, BellOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { fetchGroups, type Group } from "@/lib/groups";
+import {
+  acceptFriendRequest,
+  fetchFriendships,
+  getOtherProfile,
+  removeFriendship,
+  type Friendship,
+} from "@/lib/friends";
+import {
+  applyMessageToSummaries,
+  decryptSummary,
+  fetchConversationSummaries,
+  getSummaryTarget,
+  type ConversationSummary,
+} from "@/lib/conversation-summaries";
+import type { Message } from "@/lib/messages";
+import { describeAttachments } from "@/lib/attachments";
+import { MIN_QUERY_LENGTH, getMatchSnippet, searchMessages, type SearchResult } from "@/lib/search-index";
+import { leavePresence } from "@/lib/presence";
+import { fetchOwnStatus, formatStatus, getActiveStatus, isDndActive, type StatusFields } from "@/lib/custom-status";
+import { useStatusRefresh } from "@/hooks/use-status-refresh";
 import { SettingsModal } from "./SettingsModal";
+import { PresenceDot } from "./PresenceDot";
+import { CreateGroupDialog } from "./CreateGroupDialog";
+import { AddFriendDialog } from "./AddFriendDialog";
+import { StatusDialog } from "./StatusDialog";
 
 interface Profile {
   id: string;
@@ -18,85 +44,357 @@ interface Profile {
   bio: string;
   status: string;
   avatar_url?: string;
-  last_seen: string;
+  status_emoji?: string | null;
+  status_text?: string | null;
+  status_expires_at?: string | null;
+  dnd_until?: string | null;
 }
 
 interface ChatSidebarProps {
   currentUser: any;
   onSelectChat: (userId: string, profile: Profile) => void;
+  onSelectGroup: (group: Group) => void;
   selectedUserId?: string;
+  selectedGroupId?: string;
+  mutedIds?: Set<string>;
+  onOpenMessage?: (messageId: string) => void;
 }
 
-export function ChatSidebar({ currentUser, onSelectChat, selectedUserId }: ChatSidebarProps) {
+export function ChatSidebar({ currentUser, onSelectChat, onSelectGroup, selectedUserId, selectedGroupId, mutedIds, onOpenMessage }: ChatSidebarProps) {
   const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [friendships, setFriendships] = useState<Friendship[]>([]);
+  const [createGroupOpen, setCreateGroupOpen] = useState(false);
+  const [addFriendOpen, setAddFriendOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [loading, setLoading] = useState(true);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [statusOpen, setStatusOpen] = useState(false);
+  const [ownStatus, setOwnStatus] = useState<StatusFields | null>(null);
+  const [summaries, setSummaries] = useState<Record<string, ConversationSummary>>({});
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [messageResults, setMessageResults] = useState<SearchResult[]>([]);
+  // The open chat is read as messages arrive, so they shouldn't bump its unread count
+  const activeTargetRef = useRef<string | undefined>();
+  activeTargetRef.current = selectedGroupId ?? selectedUserId;
   const { toast } = useToast();
+  useStatusRefresh([ownStatus, ...profiles]);
+
+  // Contacts are accepted friends only; pending requests are listed separately
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const data = await fetchFriendships(currentUser?.id);
+      setFriendships(data);
+      setProfiles(
+        data
+          .filter(friendship => friendship.status === 'accepted')
+          .map(friendship => getOtherProfile(friendship, currentUser?.id))
+      );
+    } catch (error) {
+      console.error('Error fetching profiles:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load contacts",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser?.id, toast]);
+
+  const loadOwnStatus = useCallback(async () => {
+    try {
+      setOwnStatus(await fetchOwnStatus(currentUser?.id));
+    } catch (error) {
+      console.error('Error fetching status:', error);
+    }
+  }, [currentUser?.id]);
+
+  const loadSummaries = useCallback(async () => {
+    try {
+      setSummaries(await fetchConversationSummaries());
+    } catch (error) {
+      console.error('Error fetching conversation summaries:', error);
+    }
+  }, []);
+
+  const loadGroups = useCallback(async () => {
+    try {
+      setGroups(await fetchGroups(currentUser?.id));
+    } catch (error) {
+      console.error('Error fetching groups:', error);
+    }
+  }, [currentUser?.id]);
 
   useEffect(() => {
     fetchProfiles();
+    loadGroups();
+    loadSummaries();
+    loadOwnStatus();
     
     // Subscribe to profiles changes for real-time updates
     const subscription = supabase
       .channel('profiles-realtime')
+      // Profile edits are patched in place; online status comes from presence
       .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'profiles' },
+        { event: 'UPDATE', schema: 'public', table: 'profiles' },
         (payload) => {
-          console.log('Profile changed:', payload);
-          fetchProfiles(); // Refetch to get latest data
+          const updated = payload.new as Partial<Profile> & { user_id: string };
+          // Statuses set from another tab or device
+          if (updated.user_id === currentUser?.id) {
+            setOwnStatus({
+              status_emoji: updated.status_emoji,
+              status_text: updated.status_text,
+              status_expires_at: updated.status_expires_at,
+              dnd_until: updated.dnd_until,
+            });
+          }
+          setProfiles(prev => prev.map(profile =>
+            profile.user_id === updated.user_id ? { ...profile, ...updated } : profile
+          ));
+        }
+      )
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'friendships' },
+        () => fetchProfiles()
+      )
+      .subscribe();
+
+    // Groups appear and disappear as this user is added or removed, and are renamed in place
+    const groupsSubscription = supabase
+      .channel('groups-realtime')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'conversation_members', filter: `user_id=eq.${currentUser?.id}` },
+        () => loadGroups()
+      )
+      .on('postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'conversations' },
+        () => loadGroups()
+      )
+      .subscribe();
+
+    // Row-level security limits the stream to conversations this user is in
+    const messagesSubscription = supabase
+      .channel('sidebar-messages-realtime')
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'direct_messages' },
+        (payload) => {
+          const message = payload.new as Message;
+          setSummaries(prev => applyMessageToSummaries(
+            prev,
+            message,
+            currentUser?.id,
+            (message.conversation_id ?? message.sender_id) !== activeTargetRef.current
+          ));
+        }
+      )
+      // Edits and deletions only matter when they hit the message being previewed
+      .on('postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'direct_messages' },
+        (payload) => {
+          const message = payload.new as Message;
+          const targetId = getSummaryTarget(message, currentUser?.id);
+          setSummaries(prev => prev[targetId]?.message_id === message.id
+            ? {
+                ...prev,
+                [targetId]: { ...prev[targetId], content: message.content, key_epoch: message.key_epoch, deleted_at: message.deleted_at },
+              }
+            : prev
+          );
+          setPreviews(prev => {
+            if (!(message.id in prev)) return prev;
+            const { [message.id]: _stale, ...rest } = prev;
+            return rest;
+          });
+        }
+      )
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'hidden_messages', filter: `user_id=eq.${currentUser?.id}` },
+        () => loadSummaries()
+      )
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'conversation_reads', filter: `user_id=eq.${currentUser?.id}` },
+        (payload) => {
+          const { target_id } = payload.new as { target_id?: string };
+          if (!target_id) return;
+          setSummaries(prev => prev[target_id]
+            ? { ...prev, [target_id]: { ...prev[target_id], unread_count: 0 } }
+            : prev
+          );
         }
       )
       .subscribe();
 
     return () => {
       subscription.unsubscribe();
+      groupsSubscription.unsubscribe();
+      messagesSubscription.unsubscribe();
     };
-  }, []);
+  }, [currentUser?.id, fetchProfiles, loadGroups, loadSummaries, loadOwnStatus]);
 
-  const fetchProfiles = async () => {
+  useEffect(() => {
+    const pending = Object.values(summaries).filter(summary => !(summary.message_id in previews));
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      pending.map(async (summary) => {
+        if (summary.deleted_at) return [summary.message_id, 'Message deleted'] as const;
+        const result = await decryptSummary(summary, currentUser?.id);
+        const text = result.status === 'ok' && !result.text && result.attachments?.length
+          ? describeAttachments(result.attachments)
+          : result.status === 'ok' || result.status === 'legacy' ? result.text : '🔒 Encrypted message';
+        return [summary.message_id, summary.sender_id === currentUser?.id ? `You: ${text}` : text] as const;
+      })
+    ).then((results) => {
+      if (cancelled) return;
+      setPreviews(prev => ({ ...prev, ...Object.fromEntries(results) }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [summaries, previews, currentUser?.id]);
+
+  const handleGroupCreated = async (groupId: string) => {
+    const latest = await fetchGroups(currentUser?.id);
+    setGroups(latest);
+    const created = latest.find(group => group.id === groupId);
+    if (created) onSelectGroup(created);
+  };
+
+  const handleFriendRequest = async (friendshipId: string, accept: boolean) => {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .neq('user_id', currentUser?.id)
-        .order('last_seen', { ascending: false });
-
-      if (error) throw error;
-      setProfiles(data || []);
+      if (accept) {
+        await acceptFriendRequest(friendshipId);
+      } else {
+        await removeFriendship(friendshipId);
+      }
+      fetchProfiles();
     } catch (error) {
-      console.error('Error fetching profiles:', error);
+      console.error('Error updating friend request:', error);
       toast({
         title: "Error",
-        description: "Failed to load contacts",
+        description: "Failed to update friend request",
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
     }
   };
 
   const handleSignOut = async () => {
+    await leavePresence();
     await supabase.auth.signOut();
   };
 
-  const filteredProfiles = profiles.filter(profile =>
-    profile.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    profile.display_name?.toLowerCase().includes(searchTerm.toLowerCase())
+  // Messages are searched on this device only, in the local encrypted index
+  useEffect(() => {
+    if (!currentUser?.id || searchTerm.trim().length < MIN_QUERY_LENGTH) {
+      setMessageResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const results = await searchMessages(currentUser.id, searchTerm);
+        if (!cancelled) setMessageResults(results);
+      } catch (error) {
+        console.error('Error searching messages:', error);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchTerm, currentUser?.id]);
+
+  // Most recent activity first; conversations without messages keep their order at the end
+  const byActivity = (a?: ConversationSummary, b?: ConversationSummary) =>
+    (b?.created_at ?? '').localeCompare(a?.created_at ?? '');
+
+  const filteredProfiles = profiles
+    .filter(profile =>
+      profile.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      profile.display_name?.toLowerCase().includes(searchTerm.toLowerCase())
+    )
+    .sort((a, b) => byActivity(summaries[a.user_id], summaries[b.user_id]));
+
+  const incomingRequests = friendships.filter(friendship =>
+    friendship.status === 'pending' && friendship.addressee_id === currentUser?.id
+  );
+  const outgoingRequests = friendships.filter(friendship =>
+    friendship.status === 'pending' && friendship.requester_id === currentUser?.id
   );
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'online': return 'bg-chat-online';
-      case 'away': return 'bg-chat-away';
-      default: return 'bg-chat-offline';
-    }
-  };
+  const filteredGroups = groups
+    .filter(group => group.name.toLowerCase().includes(searchTerm.toLowerCase()))
+    .sort((a, b) => byActivity(summaries[a.id], summaries[b.id]));
 
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
   };
 
+  // Results from conversations that are no longer in the sidebar can't be opened
+  const getResultConversation = (result: SearchResult) => {
+    if (result.isGroup) {
+      const group = groups.find(candidate => candidate.id === result.targetId);
+      return group && { name: group.name, avatarUrl: undefined, open: () => onSelectGroup(group) };
+    }
+    const profile = profiles.find(candidate => candidate.user_id === result.targetId);
+    return profile && {
+      name: profile.display_name || profile.username,
+      avatarUrl: profile.avatar_url,
+      open: () => onSelectChat(profile.user_id, profile),
+    };
+  };
+
+  const formatActivityTime = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return isToday(date) ? format(date, 'HH:mm') : format(date, 'MMM d');
+  };
+
+  // Muted conversations still move up the list but never show a count
+  const renderActivity = (targetId: string) => {
+    const summary = summaries[targetId];
+    if (!summary) return null;
+    const unread = mutedIds?.has(targetId) ? 0 : summary.unread_count;
+
+    return (
+      <div className="flex flex-col items-end space-y-1 shrink-0">
+        <span className={`text-xs ${unread > 0 ? 'text-primary font-medium' : 'text-muted-foreground'}`}>
+          {formatActivityTime(summary.created_at)}
+        </span>
+        {unread > 0 && (
+          <Badge className="h-5 min-w-5 px-1.5 justify-center text-xs">
+            {unread > 99 ? '99+' : unread}
+          </Badge>
+        )}
+      </div>
+    );
+  };
+
+  const getPreview = (targetId: string) => {
+    const summary = summaries[targetId];
+    return summary ? previews[summary.message_id] ?? '…' : undefined;
+  };
+
+  // Only the emoji fits in the row; the text shows on hover
+  const renderStatusEmoji = (profile: Profile) => {
+    const status = getActiveStatus(profile);
+    if (!status) return null;
+    return (
+      <span className="ml-1 shrink-0" title={formatStatus(status)}>
+        {status.emoji ?? '💬'}
+      </span>
+    );
+  };
+
+  const getOwnStatusLine = () => {
+    const status = getActiveStatus(ownStatus);
+    if (status) return isDndActive(ownStatus) ? `${formatStatus(status)} · Do not disturb` : formatStatus(status);
+    return isDndActive(ownStatus) ? 'Do not disturb' : null;
+  };
+
   if (loading) {
     return (
       <div className="w-80 bg-chat-sidebar border-r border-border flex items-center justify-center">
@@ -115,6 +413,12 @@ export function ChatSidebar({ currentUser, onSelectChat, selectedUserId }: ChatS
             <h2 className="text-lg font-semibold">ChatVibe</h2>
           </div>
           <div className="flex items-center space-x-2">
+            <Button variant="ghost" size="sm" onClick={() => setAddFriendOpen(true)}>
+              <UserPlus className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setCreateGroupOpen(true)}>
+              <UsersRound className="h-4 w-4" />
+            </Button>
             <Button variant="ghost" size="sm" onClick={() => setSettingsOpen(true)}>
               <Settings className="h-4 w-4" />
             </Button>
@@ -125,18 +429,24 @@ export function ChatSidebar({ currentUser, onSelectChat, selectedUserId }: ChatS
         </div>
         
         {/* Current User */}
-        <Card className="p-3 bg-card/50">
+        <Card
+          className="p-3 bg-card/50 cursor-pointer hover:bg-card/80 transition-colors"
+          title="Set a status"
+          onClick={() => setStatusOpen(true)}
+        >
           <div className="flex items-center space-x-3">
             <div className="relative">
               <Avatar className="h-10 w-10">
                 <AvatarImage src={currentUser?.user_metadata?.avatar_url} />
                 <AvatarFallback>{getInitials(currentUser?.user_metadata?.display_name || 'U')}</AvatarFallback>
               </Avatar>
-              <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-chat-online rounded-full border-2 border-card"></div>
+              <PresenceDot userId={currentUser?.id} className="w-4 h-4" dnd={isDndActive(ownStatus)} />
             </div>
             <div className="flex-1 min-w-0">
               <p className="font-medium truncate">{currentUser?.user_metadata?.display_name || 'You'}</p>
-              <p className="text-sm text-muted-foreground truncate">@{currentUser?.user_metadata?.username}</p>
+              <p className="text-sm text-muted-foreground truncate">
+                {getOwnStatusLine() ?? `@${currentUser?.user_metadata?.username}`}
+              </p>
             </div>
           </div>
         </Card>
@@ -147,7 +457,7 @@ export function ChatSidebar({ currentUser, onSelectChat, selectedUserId }: ChatS
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder="Search conversations..."
+            placeholder="Search conversations and messages..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-10"
@@ -158,10 +468,86 @@ export function ChatSidebar({ currentUser, onSelectChat, selectedUserId }: ChatS
       {/* Contacts List */}
       <ScrollArea className="flex-1">
         <div className="p-2">
-          {filteredProfiles.length === 0 ? (
+          {incomingRequests.length > 0 && (
+            <>
+              <p className="px-3 pt-2 pb-1 text-xs font-semibold uppercase text-muted-foreground">Friend Requests</p>
+              {incomingRequests.map((friendship) => (
+                <div key={friendship.id} className="flex items-center space-x-3 p-3 mb-1">
+                  <Avatar className="h-10 w-10">
+                    <AvatarImage src={friendship.requester.avatar_url} />
+                    <AvatarFallback>{getInitials(friendship.requester.display_name || friendship.requester.username)}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{friendship.requester.display_name || friendship.requester.username}</p>
+                    <p className="text-sm text-muted-foreground truncate">@{friendship.requester.username}</p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleFriendRequest(friendship.id, true)}>
+                    <Check className="h-4 w-4 text-chat-online" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleFriendRequest(friendship.id, false)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </>
+          )}
+          {outgoingRequests.length > 0 && (
+            <>
+              <p className="px-3 pt-2 pb-1 text-xs font-semibold uppercase text-muted-foreground">Sent Requests</p>
+              {outgoingRequests.map((friendship) => (
+                <div key={friendship.id} className="flex items-center space-x-3 p-3 mb-1">
+                  <Avatar className="h-10 w-10">
+                    <AvatarImage src={friendship.addressee.avatar_url} />
+                    <AvatarFallback>{getInitials(friendship.addressee.display_name || friendship.addressee.username)}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{friendship.addressee.display_name || friendship.addressee.username}</p>
+                    <p className="text-sm text-muted-foreground truncate">Pending</p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleFriendRequest(friendship.id, false)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </>
+          )}
+          {filteredGroups.length > 0 && (
+            <>
+              <p className="px-3 pt-2 pb-1 text-xs font-semibold uppercase text-muted-foreground">Groups</p>
+              {filteredGroups.map((group) => (
+                <Button
+                  key={group.id}
+                  variant={selectedGroupId === group.id ? "secondary" : "ghost"}
+                  className="w-full justify-start p-3 h-auto mb-1"
+                  onClick={() => onSelectGroup(group)}
+                >
+                  <div className="flex items-center space-x-3 w-full">
+                    <Avatar className="h-10 w-10">
+                      <AvatarFallback>{getInitials(group.name)}</AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0 text-left">
+                      <p className="font-medium truncate flex items-center">
+                        {group.name}
+                        {mutedIds?.has(group.id) && <BellOff className="h-3 w-3 ml-1 text-muted-foreground" />}
+                      </p>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {getPreview(group.id) ?? <span className="capitalize">{group.role}</span>}
+                      </p>
+                    </div>
+                    {renderActivity(group.id)}
+                  </div>
+                </Button>
+              ))}
+              <p className="px-3 pt-2 pb-1 text-xs font-semibold uppercase text-muted-foreground">People</p>
+            </>
+          )}
+          {filteredProfiles.length === 0 && messageResults.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               <Users className="h-12 w-12 mx-auto mb-4 opacity-50" />
               <p>No contacts found</p>
+              <Button variant="link" size="sm" onClick={() => setAddFriendOpen(true)}>
+                Add a friend
+              </Button>
             </div>
           ) : (
             filteredProfiles.map((profile) => (
@@ -177,22 +563,58 @@ export function ChatSidebar({ currentUser, onSelectChat, selectedUserId }: ChatS
                       <AvatarImage src={profile.avatar_url} />
                       <AvatarFallback>{getInitials(profile.display_name || profile.username)}</AvatarFallback>
                     </Avatar>
-                    <div className={`absolute -bottom-1 -right-1 w-3 h-3 ${getStatusColor(profile.status)} rounded-full border-2 border-card`}></div>
+                    <PresenceDot userId={profile.user_id} dnd={isDndActive(profile)} />
                   </div>
                   <div className="flex-1 min-w-0 text-left">
-                    <p className="font-medium truncate">{profile.display_name || profile.username}</p>
-                    <p className="text-sm text-muted-foreground truncate">@{profile.username}</p>
-                    {profile.bio && (
-                      <p className="text-xs text-muted-foreground truncate mt-1">{profile.bio}</p>
-                    )}
+                    <p className="font-medium truncate flex items-center">
+                      <span className="truncate">{profile.display_name || profile.username}</span>
+                      {renderStatusEmoji(profile)}
+                      {mutedIds?.has(profile.user_id) && <BellOff className="h-3 w-3 ml-1 text-muted-foreground" />}
+                    </p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {getPreview(profile.user_id) ?? `@${profile.username}`}
+                    </p>
                   </div>
-                  <Badge variant="secondary" className="text-xs">
-                    {profile.status}
-                  </Badge>
+                  {renderActivity(profile.user_id)}
                 </div>
               </Button>
             ))
           )}
+          {messageResults.length > 0 && (
+            <>
+              <p className="px-3 pt-2 pb-1 text-xs font-semibold uppercase text-muted-foreground">Messages</p>
+              {messageResults.map((result) => {
+                const conversation = getResultConversation(result);
+                if (!conversation) return null;
+                return (
+                  <Button
+                    key={result.messageId}
+                    variant="ghost"
+                    className="w-full justify-start p-3 h-auto mb-1"
+                    onClick={() => {
+                      conversation.open();
+                      onOpenMessage?.(result.messageId);
+                    }}
+                  >
+                    <div className="flex items-center space-x-3 w-full">
+                      <Avatar className="h-10 w-10">
+                        <AvatarImage src={conversation.avatarUrl} />
+                        <AvatarFallback>{getInitials(conversation.name)}</AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0 text-left">
+                        <p className="font-medium truncate">{conversation.name}</p>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {result.senderId === currentUser?.id && 'You: '}
+                          {getMatchSnippet(result.text, searchTerm)}
+                        </p>
+                      </div>
+                      <span className="text-xs text-muted-foreground self-start">{formatActivityTime(result.createdAt)}</span>
+                    </div>
+                  </Button>
+                );
+              })}
+            </>
+          )}
         </div>
       </ScrollArea>
       
@@ -201,6 +623,28 @@ export function ChatSidebar({ currentUser, onSelectChat, selectedUserId }: ChatS
         onOpenChange={setSettingsOpen} 
         currentUser={currentUser} 
       />
+
+      <StatusDialog
+        open={statusOpen}
+        onOpenChange={setStatusOpen}
+        currentUserId={currentUser?.id}
+        status={ownStatus}
+        onSaved={setOwnStatus}
+      />
+
+      <AddFriendDialog
+        open={addFriendOpen}
+        onOpenChange={setAddFriendOpen}
+        currentUserId={currentUser?.id}
+      />
+
+      <CreateGroupDialog
+        open={createGroupOpen}
+        onOpenChange={setCreateGroupOpen}
+        currentUserId={currentUser?.id}
+        contacts={profiles}
+        onCreated={handleGroupCreated}
+      />
     </div>
   );
 }
\ No newline at end of file
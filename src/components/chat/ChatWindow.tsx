@@ -1,23 +1,96 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useLayoutEffect, useRef, useMemo, useCallback } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
-import { Send, Phone, Video, MoreVertical, Shield } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Send, Phone, Video, MoreVertical, Shield, ShieldCheck, ShieldAlert, Lock, AlertTriangle, Users, UserMinus, Bell, BellOff, Ban, Check, CheckCheck, ChevronDown, Pencil, Trash2, EyeOff, X, Reply, SmilePlus, Paperclip, Mic, Square, Clock, AlertCircle, RotateCw, Link2, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
-import { encryptMessage, decryptMessage } from "@/lib/encryption";
-
-interface Message {
-  id: string;
-  sender_id: string;
-  receiver_id: string;
-  content: string;
-  created_at: string;
-}
+import { encryptMessage, EncryptionError, type DecryptResult } from "@/lib/encryption";
+import { getSendEpoch, observeEpoch } from "@/lib/key-rotation";
+import { getVerificationState, type VerificationState } from "@/lib/verification";
+import { encryptGroupMessage, getGroupSendEpoch } from "@/lib/group-encryption";
+import { fetchGroupMembers, type Group, type GroupMember } from "@/lib/groups";
+import { unfriend } from "@/lib/friends";
+import { blockUser, isBlockedInsertError, isUserBlocked, unblockUser } from "@/lib/blocks";
+import { muteConversation, unmuteConversation } from "@/lib/mutes";
+import { markConversationRead } from "@/lib/conversation-summaries";
+import {
+  decryptStoredMessage,
+  deleteMessageForEveryone,
+  editMessage,
+  fetchMessage,
+  fetchMessagePage,
+  fetchPagesUntil,
+  hideMessage,
+  mergeOlderPage,
+  type Message,
+  type MessagePage,
+} from "@/lib/messages";
+import { loadCachedMessages, saveCachedMessages, syncCachedMessages } from "@/lib/message-cache";
+import {
+  fetchReceipts,
+  getDeliveryState,
+  getReadReceiptsEnabled,
+  markMessagesDelivered,
+  markMessagesRead,
+  type MessageReceipt,
+} from "@/lib/receipts";
+import { VerifyContactDialog } from "./VerifyContactDialog";
+import { GroupSettingsDialog } from "./GroupSettingsDialog";
+import {
+  QUICK_REACTIONS,
+  addReaction,
+  fetchReactions,
+  isSameReaction,
+  removeReaction,
+  removeReactionById,
+  summarizeReactions,
+  type Reaction,
+} from "@/lib/reactions";
+import { EditHistoryPopover } from "./EditHistoryPopover";
+import { PresenceDot } from "./PresenceDot";
+import { usePresence } from "@/hooks/use-presence";
+import { useStatusRefresh } from "@/hooks/use-status-refresh";
+import { useLastSeen } from "@/hooks/use-last-seen";
+import { describeTyping, joinTypingChannel, type TypingChannel } from "@/lib/typing";
+import { formatLastSeen } from "@/lib/last-seen";
+import { formatStatus, getActiveStatus, isDndActive, type StatusFields } from "@/lib/custom-status";
+import { MessageAttachments } from "./MessageAttachments";
+import { MessageMarkdown } from "./MessageMarkdown";
+import { Progress } from "@/components/ui/progress";
+import { useVoiceRecorder, type VoiceRecording } from "@/hooks/use-voice-recorder";
+import type { AttachmentRef, LinkPreview, MessageBody } from "@/lib/envelope";
+import { extractUrls, fetchLinkPreview, getLinkPreviewsEnabled, MAX_PREVIEWS_PER_MESSAGE, sanitizePreviews } from "@/lib/link-previews";
+import { LinkPreviewCard } from "./LinkPreviewCard";
+import { indexMessages, removeFromIndex } from "@/lib/search-index";
+import {
+  discardMessage,
+  enqueueMessage,
+  getOutbox,
+  retryMessage,
+  subscribeToOutbox,
+  toOptimisticMessage,
+  type OutboxEntry,
+} from "@/lib/outbox";
+import {
+  AttachmentError,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_VOICE_NOTE_SECONDS,
+  createPendingAttachment,
+  describeAttachments,
+  formatFileSize,
+  removeAttachments,
+  sanitizeAttachments,
+  uploadAttachment,
+  type PendingAttachment,
+} from "@/lib/attachments";
 
 interface Profile {
   id: string;
@@ -27,86 +100,477 @@ interface Profile {
   bio: string;
   status: string;
   avatar_url?: string;
+  status_emoji?: string | null;
+  status_text?: string | null;
+  status_expires_at?: string | null;
+  dnd_until?: string | null;
 }
 
+// Exactly one of selectedProfile (direct chat) or selectedGroup is set
 interface ChatWindowProps {
   currentUser: any;
-  selectedProfile: Profile;
+  selectedProfile?: Profile;
+  selectedGroup?: Group;
+  muted?: boolean;
+  onMutedChange?: () => void;
+  onLeaveGroup?: () => void;
+  onUnfriend?: () => void;
+  // A new object each time, so opening the same search result twice jumps again
+  jumpRequest?: { messageId: string } | null;
 }
 
-export function ChatWindow({ currentUser, selectedProfile }: ChatWindowProps) {
+export function ChatWindow({ currentUser, selectedProfile, selectedGroup, muted, onMutedChange, onLeaveGroup, onUnfriend, jumpRequest }: ChatWindowProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState("");
   const [loading, setLoading] = useState(false);
-  const [isTyping, setIsTyping] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const typingRef = useRef<TypingChannel | null>(null);
+  const [decryptedContents, setDecryptedContents] = useState<Record<string, DecryptResult>>({});
+  const [verificationState, setVerificationState] = useState<VerificationState>('unverified');
+  const [verifyOpen, setVerifyOpen] = useState(false);
+  const [blocked, setBlocked] = useState(false);
+  const [receipts, setReceipts] = useState<Record<string, MessageReceipt[]>>({});
+  const [readReceiptsEnabled, setReadReceiptsEnabled] = useState(true);
+  const [pageVisible, setPageVisible] = useState(!document.hidden);
+  const markedReadRef = useRef<Set<string>>(new Set());
+  const [groupMembers, setGroupMembers] = useState<GroupMember[]>([]);
+  const [groupSettingsOpen, setGroupSettingsOpen] = useState(false);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>(() => getOutbox(currentUser.id));
+  const [olderCursor, setOlderCursor] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  // Quoted parents that aren't in the loaded pages; null when they can't be fetched
+  const [parents, setParents] = useState<Record<string, Message | null>>({});
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const pendingJumpRef = useRef<string | null>(null);
+  // Set every render, for effects that only run again when the chat changes
+  const fetchMessagesRef = useRef<() => Promise<void>>();
+  const jumpToMessageRef = useRef<(messageId: string) => Promise<void>>();
+  const [reactions, setReactions] = useState<Record<string, Reaction[]>>({});
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const longPressRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+  // Unfurled for the first URL in the draft; preview stays null if the page can't be read
+  const [draftPreview, setDraftPreview] = useState<{ url: string; preview: LinkPreview | null } | null>(null);
+  const [loadingPreviewUrl, setLoadingPreviewUrl] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Distance from the bottom to restore after an older page is prepended
+  const prependAnchorRef = useRef<number | null>(null);
+  const stickToBottomRef = useRef(true);
+  const presence = usePresence(selectedProfile?.user_id);
+  const lastSeen = useLastSeen(selectedProfile?.user_id);
+  const [peerStatus, setPeerStatus] = useState<StatusFields | undefined>(selectedProfile);
+  useStatusRefresh([peerStatus]);
   const { toast } = useToast();
 
+  const groupId = selectedGroup?.id;
+  const peerId = selectedProfile?.user_id;
+  const chatId = groupId ?? peerId;
+
+  const cryptoContext = useMemo(
+    () => ({ userId: currentUser.id, peerId: selectedProfile?.user_id }),
+    [currentUser.id, selectedProfile?.user_id]
+  );
+  const groupContext = useMemo(
+    () => ({ userId: currentUser.id, conversationId: selectedGroup?.id }),
+    [currentUser.id, selectedGroup?.id]
+  );
+  const membersById = useMemo(
+    () => new Map(groupMembers.map(member => [member.user_id, member])),
+    [groupMembers]
+  );
+  const messagesById = useMemo(
+    () => new Map(messages.map(message => [message.id, message])),
+    [messages]
+  );
+  // Queued messages are already in `messages`; this says which of them the server doesn't have yet
+  const outboxById = useMemo(
+    () => new Map(outbox.map(entry => [entry.id, entry])),
+    [outbox]
+  );
+  const chatTarget = useMemo(
+    () => ({ userId: currentUser.id, peerId: selectedProfile?.user_id, conversationId: selectedGroup?.id }),
+    [currentUser.id, selectedProfile?.user_id, selectedGroup?.id]
+  );
+
+  // Only the bubbles in view are mounted; heights are measured as they render
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 76,
+    overscan: 8,
+    getItemKey: (index) => messages[index].id,
+  });
+
   useEffect(() => {
-    fetchMessages();
+    fetchMessagesRef.current?.();
+    getReadReceiptsEnabled(currentUser.id)
+      .then(setReadReceiptsEnabled)
+      .catch((error) => console.error('Error fetching read receipt setting:', error));
+
+    // Realtime filters only take one column, so a direct chat listens to
+    // everything sent to or by this user and keeps the rows with the peer
+    const messageFilters = groupId
+      ? [`conversation_id=eq.${groupId}`]
+      : [`receiver_id=eq.${currentUser.id}`, `sender_id=eq.${currentUser.id}`];
+    const isInChat = (message: Message) => groupId
+      ? message.conversation_id === groupId
+      : (message.sender_id === currentUser.id && message.receiver_id === peerId)
+        || (message.sender_id === peerId && message.receiver_id === currentUser.id);
     
     // Subscribe to new messages for REAL-TIME updates
-    const subscription = supabase
-      .channel(`chat-${currentUser.id}-${selectedProfile.user_id}`)
-      .on('postgres_changes', 
-        { 
-          event: 'INSERT', 
-          schema: 'public', 
-          table: 'direct_messages',
-          filter: `or(and(sender_id.eq.${currentUser.id},receiver_id.eq.${selectedProfile.user_id}),and(sender_id.eq.${selectedProfile.user_id},receiver_id.eq.${currentUser.id}))`
-        },
+    const channel = supabase.channel(`chat-${currentUser.id}-${chatId}`);
+    messageFilters.forEach((filter) => {
+      channel
+        .on('postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'direct_messages', filter },
+          (payload) => {
+            const newMessage = payload.new as Message;
+            if (!isInChat(newMessage)) return;
+            setMessages(prev => {
+              // Our own queued messages come back with the server's timestamp
+              const exists = prev.find(msg => msg.id === newMessage.id);
+              if (exists) return prev.map(msg => msg.id === newMessage.id ? newMessage : msg);
+              return [...prev, newMessage];
+            });
+          }
+        )
+        // Edits and tombstones; the row's content changes so it is decrypted again
+        .on('postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'direct_messages', filter },
+          (payload) => {
+            const updated = payload.new as Message;
+            if (!isInChat(updated)) return;
+            setMessages(prev => prev.map(message => message.id === updated.id ? updated : message));
+            setDecryptedContents(prev => {
+              if (!(updated.id in prev)) return prev;
+              const { [updated.id]: _stale, ...rest } = prev;
+              return rest;
+            });
+          }
+        );
+    });
+
+    const subscription = channel
+      // Realtime can't filter deletes, and with row-level security they only carry the id
+      .on('postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'direct_messages' },
+        (payload) => {
+          const { id } = payload.old as { id?: string };
+          if (!id) return;
+          setMessages(prev => prev.filter(message => message.id !== id));
+          removeFromIndex(currentUser.id, [id]).catch(error => console.error('Error updating search index:', error));
+        }
+      )
+      // Reactions for messages that aren't loaded are kept too; they're keyed by message
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'message_reactions' },
         (payload) => {
-          console.log('New message received:', payload);
-          const newMessage = payload.new as Message;
-          setMessages(prev => {
-            // Avoid duplicates
-            const exists = prev.find(msg => msg.id === newMessage.id);
-            if (exists) return prev;
-            return [...prev, newMessage];
+          const reaction = payload.new as Reaction;
+          setReactions(prev => {
+            const existing = prev[reaction.message_id] ?? [];
+            // An echo of our own reaction brings the id the delete event will need
+            if (existing.some(current => isSameReaction(current, reaction))) {
+              return {
+                ...prev,
+                [reaction.message_id]: existing.map(current => (isSameReaction(current, reaction) ? reaction : current)),
+              };
+            }
+            return { ...prev, [reaction.message_id]: [...existing, reaction] };
           });
         }
       )
-      .subscribe();
-
-    // Subscribe to typing status for REAL-TIME typing indicators
-    const typingSubscription = supabase
-      .channel(`typing-${currentUser.id}-${selectedProfile.user_id}`)
       .on('postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'typing_status',
-          filter: `and(user_id.eq.${selectedProfile.user_id},conversation_with.eq.${currentUser.id})`
-        },
+        { event: 'DELETE', schema: 'public', table: 'message_reactions' },
         (payload) => {
-          console.log('Typing status changed:', payload);
-          if (payload.new) {
-            setIsTyping((payload.new as any).is_typing);
-          }
+          const { id } = payload.old as { id?: string };
+          if (!id) return;
+          setReactions(prev => removeReactionById(prev, id));
+        }
+      )
+      // "Delete for me" from another tab or device
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'hidden_messages', filter: `user_id=eq.${currentUser.id}` },
+        (payload) => {
+          const { message_id } = payload.new as { message_id?: string };
+          if (!message_id) return;
+          setMessages(prev => prev.filter(message => message.id !== message_id));
+          removeFromIndex(currentUser.id, [message_id]).catch(error => console.error('Error updating search index:', error));
+        }
+      )
+      // Row-level security only sends receipts for our own messages or our own receipts
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'message_receipts' },
+        (payload) => {
+          const receipt = payload.new as MessageReceipt;
+          if (!receipt?.message_id) return;
+          setReceipts(prev => ({
+            ...prev,
+            [receipt.message_id]: [
+              ...(prev[receipt.message_id] ?? []).filter(existing => existing.user_id !== receipt.user_id),
+              receipt,
+            ],
+          }));
         }
       )
+      .on('postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'profiles', filter: `user_id=eq.${currentUser.id}` },
+        (payload) => setReadReceiptsEnabled((payload.new as { read_receipts?: boolean }).read_receipts ?? true)
+      )
       .subscribe();
 
     return () => {
       subscription.unsubscribe();
-      typingSubscription.unsubscribe();
     };
-  }, [selectedProfile.user_id, currentUser.id]);
+  }, [chatId, groupId, peerId, currentUser.id]);
+
+  // Typing indicators are ephemeral broadcasts; each event expires on its own
+  useEffect(() => {
+    const typing = joinTypingChannel(chatTarget, setTypingUserIds);
+    typingRef.current = typing;
+    return () => {
+      typing.stopTyping();
+      typing.leave();
+      typingRef.current = null;
+      setTypingUserIds([]);
+    };
+  }, [chatTarget]);
+
+  // Group members join and leave without reopening the chat
+  useEffect(() => {
+    typingRef.current?.setParticipants(groupId ? groupMembers.map(member => member.user_id) : [peerId]);
+  }, [chatTarget, groupId, peerId, groupMembers]);
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      setGroupMembers(await fetchGroupMembers(groupId));
+    } catch (error) {
+      console.error('Error fetching group members:', error);
+    }
+  }, [groupId]);
+
+  const fetchVerificationState = useCallback(async () => {
+    try {
+      setVerificationState(await getVerificationState(currentUser.id, peerId));
+    } catch (error) {
+      console.error('Error fetching verification state:', error);
+    }
+  }, [currentUser.id, peerId]);
+
+  const fetchBlockedState = useCallback(async () => {
+    try {
+      setBlocked(await isUserBlocked(currentUser.id, peerId));
+    } catch (error) {
+      console.error('Error fetching block state:', error);
+    }
+  }, [currentUser.id, peerId]);
+
+  useEffect(() => {
+    if (groupId) {
+      fetchMembers();
+
+      // Keep names, avatars and the key's recipient list in step with membership
+      const membersSubscription = supabase
+        .channel(`members-${groupId}`)
+        .on('postgres_changes',
+          { event: '*', schema: 'public', table: 'conversation_members', filter: `conversation_id=eq.${groupId}` },
+          () => fetchMembers()
+        )
+        .subscribe();
+
+      return () => {
+        membersSubscription.unsubscribe();
+      };
+    }
+
+    fetchVerificationState();
+    fetchBlockedState();
+
+    // The custom status in the header follows the contact's changes
+    const statusSubscription = supabase
+      .channel(`peer-status-${currentUser.id}-${peerId}`)
+      .on('postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'profiles', filter: `user_id=eq.${peerId}` },
+        (payload) => setPeerStatus(payload.new as StatusFields)
+      )
+      .subscribe();
+
+    return () => {
+      statusSubscription.unsubscribe();
+    };
+  }, [groupId, peerId, currentUser.id, fetchMembers, fetchVerificationState, fetchBlockedState]);
+
+  useLayoutEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+
+    if (pendingJumpRef.current !== null) {
+      const index = messages.findIndex(message => message.id === pendingJumpRef.current);
+      pendingJumpRef.current = null;
+      if (index >= 0) virtualizer.scrollToIndex(index, { align: 'center' });
+    } else if (prependAnchorRef.current !== null) {
+      scroller.scrollTop = scroller.scrollHeight - prependAnchorRef.current;
+      prependAnchorRef.current = null;
+    } else if (stickToBottomRef.current && messages.length > 0) {
+      virtualizer.scrollToIndex(messages.length - 1, { align: 'end' });
+    }
+  }, [messages, virtualizer]);
+
+  // Unfurling contacts the linked site from this device, so the first URL in
+  // the draft is only fetched when the user asks for its preview
+  const draftUrl = editingMessage || !getLinkPreviewsEnabled() ? undefined : extractUrls(newMessage)[0];
+
+  const handleAddPreview = async () => {
+    if (!draftUrl) return;
+    const url = draftUrl;
+    setLoadingPreviewUrl(url);
+    const preview = await fetchLinkPreview(url);
+    setLoadingPreviewUrl(current => current === url ? null : current);
+    setDraftPreview({ url, preview });
+    if (!preview) {
+      toast({
+        title: "No preview available",
+        description: "This site doesn't allow its pages to be previewed from the browser",
+      });
+    }
+  };
+
+  // Grow the composer with its content up to its max height
+  useLayoutEffect(() => {
+    const composer = composerRef.current;
+    if (!composer) return;
+    composer.style.height = 'auto';
+    composer.style.height = `${composer.scrollHeight}px`;
+  }, [newMessage]);
+
+  useEffect(() => subscribeToOutbox(currentUser.id, setOutbox), [currentUser.id]);
+
+  // Keep the device cache in step with what's on screen, minus unsent messages
+  useEffect(() => {
+    if (!historyLoaded) return;
+    const timeout = setTimeout(() => {
+      saveCachedMessages(currentUser.id, chatTarget, messages.filter(message => !outboxById.has(message.id)))
+        .catch(error => console.error('Error updating message cache:', error));
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [messages, historyLoaded, outboxById, chatTarget, currentUser.id]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setPageVisible(!document.hidden);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Moves this user's private read position, which drives the sidebar's unread count
+  useEffect(() => {
+    if (!pageVisible) return;
+    markConversationRead(currentUser.id, chatId).catch((error) => {
+      console.error('Error marking conversation read:', error);
+    });
+  }, [messages.length, pageVisible, chatId, currentUser.id]);
+
+  // Anything from others that is on screen while the tab is visible has been
+  // read. The virtualizer re-renders on scroll, and its range leaves out the
+  // overscan, so older or jumped-past pages only count once scrolled into view.
+  const visibleRange = virtualizer.range;
+  const visibleStart = visibleRange?.startIndex ?? -1;
+  const visibleEnd = visibleRange?.endIndex ?? -1;
+  useEffect(() => {
+    if (!pageVisible || !readReceiptsEnabled || visibleStart < 0) return;
 
+    const unread = messages
+      .slice(visibleStart, visibleEnd + 1)
+      .filter(message => message.sender_id !== currentUser.id && !markedReadRef.current.has(message.id))
+      .map(message => message.id);
+    if (unread.length === 0) return;
+
+    unread.forEach(id => markedReadRef.current.add(id));
+    markMessagesRead(unread).catch((error) => {
+      unread.forEach(id => markedReadRef.current.delete(id));
+      console.error('Error sending read receipts:', error);
+    });
+  }, [messages, visibleStart, visibleEnd, pageVisible, readReceiptsEnabled, currentUser.id]);
+
+  // Fetch quoted parents that are older than anything loaded
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    const missing = [...new Set(
+      messages
+        .map(message => message.reply_to_id)
+        .filter((id): id is string => !!id && !messagesById.has(id) && !(id in parents))
+    )];
+    if (missing.length === 0) return;
+
+    setParents(prev => ({ ...prev, ...Object.fromEntries(missing.map(id => [id, null])) }));
+    Promise.all(missing.map(id => fetchMessage(id).catch(() => null))).then((fetched) => {
+      setParents(prev => ({ ...prev, ...Object.fromEntries(missing.map((id, index) => [id, fetched[index]])) }));
+    });
+  }, [messages, messagesById, parents]);
 
+  // Decrypt messages as they arrive; WebCrypto is async so results are kept in
+  // state, and decryptStoredMessage caches them per id across pages and remounts
+  useEffect(() => {
+    const pending = [...messages, ...Object.values(parents).filter((parent): parent is Message => !!parent)]
+      .filter(message => !(message.id in decryptedContents));
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      pending.map(async (message) => {
+        if (!message.conversation_id) {
+          observeEpoch(cryptoContext, message.key_epoch, message.created_at).catch(() => undefined);
+        }
+        return [message.id, await decryptStoredMessage(message, currentUser.id)] as const;
+      })
+    ).then((results) => {
+      // Edits and tombstones come back through here too, replacing the old entry
+      indexMessages(currentUser.id, pending.map((message, i) => ({ message, result: results[i][1] })))
+        .catch(error => console.error('Error updating search index:', error));
+      if (cancelled) return;
+      setDecryptedContents(prev => ({ ...prev, ...Object.fromEntries(results) }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [messages, parents, decryptedContents, cryptoContext, currentUser.id]);
+
+  const isInThisChat = (entry: OutboxEntry) =>
+    selectedGroup ? entry.conversation_id === selectedGroup.id : entry.receiver_id === selectedProfile.user_id;
+
+  const showLatestPage = (page: MessagePage) => {
+    const loaded = new Set(page.messages.map(message => message.id));
+    // Messages still waiting in the outbox go after everything the server has
+    const queued = getOutbox(currentUser.id)
+      .filter(entry => isInThisChat(entry) && !loaded.has(entry.id))
+      .map(toOptimisticMessage);
+    stickToBottomRef.current = true;
+    setMessages([...page.messages, ...queued]);
+    setHasOlder(page.hasMore);
+    setOlderCursor(page.cursor);
+  };
+
+  // Cached history renders straight away and is then brought up to date
   const fetchMessages = async () => {
+    let cached: Message[] = [];
     try {
-      const { data, error } = await supabase
-        .from('direct_messages')
-        .select('*')
-        .or(`and(sender_id.eq.${currentUser.id},receiver_id.eq.${selectedProfile.user_id}),and(sender_id.eq.${selectedProfile.user_id},receiver_id.eq.${currentUser.id})`)
-        .order('created_at', { ascending: true });
-
-      if (error) throw error;
-      setMessages(data || []);
+      cached = await loadCachedMessages(currentUser.id, chatTarget);
+      if (cached.length > 0) showLatestPage({ messages: cached, hasMore: true, cursor: cached[0] });
+    } catch (error) {
+      console.error('Error reading message cache:', error);
+    }
+
+    try {
+      const page = cached.length > 0
+        ? await syncCachedMessages(chatTarget, cached)
+        : await fetchMessagePage(chatTarget);
+      showLatestPage(page);
+      loadPageExtras(page.messages);
     } catch (error) {
       console.error('Error fetching messages:', error);
       toast({
@@ -114,88 +578,710 @@ export function ChatWindow({ currentUser, selectedProfile }: ChatWindowProps) {
         description: "Failed to load messages",
         variant: "destructive",
       });
+    } finally {
+      setHistoryLoaded(true);
     }
   };
+  fetchMessagesRef.current = fetchMessages;
+
+  const loadOlderMessages = async () => {
+    const scroller = scrollRef.current;
+    if (!scroller || loadingOlder || !hasOlder || !olderCursor) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await fetchMessagePage(chatTarget, olderCursor);
+      const added = mergeOlderPage(messages, page.messages).length - messages.length;
+
+      if (added > 0) {
+        prependAnchorRef.current = scroller.scrollHeight - scroller.scrollTop;
+        setMessages(prev => mergeOlderPage(prev, page.messages));
+        loadPageExtras(page.messages);
+      }
+      // A page of only hidden rows still moves the cursor
+      setHasOlder(page.hasMore && page.cursor?.id !== olderCursor.id);
+      setOlderCursor(page.cursor);
+    } catch (error) {
+      console.error('Error fetching older messages:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load older messages",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleScroll = () => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+
+    stickToBottomRef.current = scroller.scrollHeight - scroller.scrollTop - scroller.clientHeight < 80;
+    if (scroller.scrollTop < 200) loadOlderMessages();
+  };
+
+  const loadPageExtras = (loaded: Message[]) => {
+    loadReceipts(loaded);
+    loadReactions(loaded);
+  };
+
+  const loadReactions = async (loaded: Message[]) => {
+    try {
+      const byMessage: Record<string, Reaction[]> = {};
+      for (const reaction of await fetchReactions(loaded.map(message => message.id))) {
+        (byMessage[reaction.message_id] ??= []).push(reaction);
+      }
+      setReactions(prev => ({ ...prev, ...byMessage }));
+    } catch (error) {
+      console.error('Error loading reactions:', error);
+    }
+  };
+
+  const loadReceipts = async (loaded: Message[]) => {
+    try {
+      const received = loaded.filter(message => message.sender_id !== currentUser.id).map(message => message.id);
+      await markMessagesDelivered(received);
+
+      const own = loaded.filter(message => message.sender_id === currentUser.id).map(message => message.id);
+      const byMessage: Record<string, MessageReceipt[]> = {};
+      for (const receipt of await fetchReceipts(own)) {
+        (byMessage[receipt.message_id] ??= []).push(receipt);
+      }
+      setReceipts(prev => ({ ...prev, ...byMessage }));
+    } catch (error) {
+      console.error('Error loading receipts:', error);
+    }
+  };
+
+  const addPendingAttachments = (files: Blob[], getName: (file: Blob) => string, kind?: 'voice', duration?: number) => {
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - pendingAttachments.length;
+    if (files.length > room) {
+      toast({
+        title: "Too many attachments",
+        description: `You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`,
+        variant: "destructive",
+      });
+    }
+
+    const added: PendingAttachment[] = [];
+    for (const file of files.slice(0, Math.max(room, 0))) {
+      try {
+        added.push(createPendingAttachment(file, getName(file), kind, duration));
+      } catch (error) {
+        if (!(error instanceof AttachmentError)) throw error;
+        toast({
+          title: "Can't attach file",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    }
+    if (added.length > 0) setPendingAttachments(prev => [...prev, ...added]);
+  };
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addPendingAttachments(Array.from(e.target.files ?? []), file => (file as File).name);
+    e.target.value = "";
+  };
+
+  const addVoiceNote = (recording: VoiceRecording | null) => {
+    if (!recording) return;
+    addPendingAttachments([recording.blob], () => `Voice message ${format(new Date(), 'yyyy-MM-dd HH.mm')}.webm`, 'voice', recording.duration);
+  };
+
+  const voiceRecorder = useVoiceRecorder(MAX_VOICE_NOTE_SECONDS, addVoiceNote);
+
+  const handleStartRecording = async () => {
+    try {
+      await voiceRecorder.start();
+    } catch (error) {
+      console.error('Error starting voice recording:', error);
+      toast({
+        title: "Error",
+        description: "Couldn't access the microphone",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removePendingAttachment = (id: string) => {
+    setPendingAttachments(prev => prev.filter(attachment => attachment.id !== id));
+  };
+
+  // Attachments stay as they were when a message is edited; only the text changes
+  const getDecryptedAttachments = (messageId: string): AttachmentRef[] => {
+    const decrypted = decryptedContents[messageId];
+    return decrypted?.status === 'ok' ? decrypted.attachments ?? [] : [];
+  };
+
+  // Edits keep the previews of links that are still in the text; new messages
+  // carry the draft preview if it finished loading in time
+  const getOutgoingPreviews = (text: string): LinkPreview[] => {
+    if (editingMessage) {
+      const decrypted = decryptedContents[editingMessage.id];
+      const previews = decrypted?.status === 'ok' ? decrypted.previews ?? [] : [];
+      const urls = extractUrls(text);
+      return previews.filter(preview => urls.includes(preview.url)).slice(0, MAX_PREVIEWS_PER_MESSAGE);
+    }
+    return draftPreview?.preview && text.includes(draftPreview.url) ? [draftPreview.preview] : [];
+  };
 
   const sendMessage = async () => {
-    if (!newMessage.trim()) return;
+    const text = newMessage.trim();
+    const keptAttachments = editingMessage ? getDecryptedAttachments(editingMessage.id) : [];
+    if (!text && pendingAttachments.length === 0 && keptAttachments.length === 0) return;
+    // The member list decides who can read the message, so wait until it's loaded
+    if (selectedGroup && groupMembers.length === 0) return;
 
+    typingRef.current?.stopTyping();
     setLoading(true);
+    let uploaded: AttachmentRef[] = [];
     try {
+      if (!editingMessage && pendingAttachments.length > 0) {
+        uploaded = await Promise.all(pendingAttachments.map(attachment =>
+          uploadAttachment(chatTarget, attachment, fraction =>
+            setUploadProgress(prev => ({ ...prev, [attachment.id]: fraction }))
+          )
+        ));
+      }
+
+      const attachments = editingMessage ? keptAttachments : uploaded;
+      const previews = getOutgoingPreviews(text);
+      const body: MessageBody = {
+        text,
+        ...(attachments.length > 0 && { attachments }),
+        ...(previews.length > 0 && { previews }),
+      };
+
+      // Offline the epoch can't be checked with the server, so a new message is
+      // sealed under the newest one this chat has seen and the outbox checks it
+      // again before sending
+      const provisional = !editingMessage && !navigator.onLine;
+      const keyEpoch = provisional
+        ? Math.max(0, ...messages.map(message => message.key_epoch))
+        : selectedGroup
+          ? await getGroupSendEpoch(groupContext, groupMembers.map(member => member.user_id))
+          : await getSendEpoch(cryptoContext);
+
       // Encrypt message before sending
-      const encryptedContent = encryptMessage(newMessage.trim());
-      
-      const { error } = await supabase
-        .from('direct_messages')
-        .insert({
-          sender_id: currentUser.id,
-          receiver_id: selectedProfile.user_id,
-          content: encryptedContent, // Store encrypted content
-        });
+      const encrypted = selectedGroup
+        ? await encryptGroupMessage(body, groupContext, keyEpoch)
+        : await encryptMessage(body, cryptoContext, keyEpoch);
 
-      if (error) throw error;
+      if (editingMessage) {
+        await editMessage(editingMessage, encrypted);
+        setEditingMessage(null);
+        setNewMessage("");
+        return;
+      }
+      
+      // Shown straight away; the outbox keeps retrying until the server has it
+      const entry = enqueueMessage(currentUser.id, {
+        sender_id: currentUser.id,
+        receiver_id: selectedGroup ? null : selectedProfile.user_id,
+        conversation_id: selectedGroup ? selectedGroup.id : null,
+        content: encrypted.content, // Store encrypted content
+        key_epoch: encrypted.keyEpoch,
+        reply_to_id: replyingTo?.id ?? null,
+        provisional,
+      });
       
+      stickToBottomRef.current = true;
+      setMessages(prev => [...prev, toOptimisticMessage(entry)]);
       setNewMessage("");
+      setReplyingTo(null);
+      setPendingAttachments([]);
+      setDraftPreview(null);
     } catch (error) {
       console.error('Error sending message:', error);
+      removeAttachments(uploaded).catch(cleanupError =>
+        console.error('Error removing unsent attachments:', cleanupError)
+      );
       toast({
         title: "Error",
-        description: "Failed to send message",
+        description: error instanceof EncryptionError
+          ? `Couldn't encrypt message: ${error.message}`
+          : isBlockedInsertError(error)
+            ? "You can't send messages to this user"
+            : "Failed to send message",
         variant: "destructive",
       });
     } finally {
       setLoading(false);
+      setUploadProgress({});
     }
   };
 
-  const updateTypingStatus = async (typing: boolean) => {
+  // Plain text of a decrypted message, or null while pending or unreadable
+  const getDecryptedText = (messageId: string) => {
+    const decrypted = decryptedContents[messageId];
+    return decrypted?.status === 'ok' || decrypted?.status === 'legacy' ? decrypted.text : null;
+  };
+
+  // Text for quotes and banners, falling back to a description of attachment-only messages
+  const getSnippet = (messageId: string) => {
+    const text = getDecryptedText(messageId);
+    const attachments = getDecryptedAttachments(messageId);
+    return !text && attachments.length > 0 ? describeAttachments(attachments) : text;
+  };
+
+  const handleStartEdit = (message: Message) => {
+    const text = getDecryptedText(message.id);
+    if (text === null) return;
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(text);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessage(null);
+    setNewMessage("");
+  };
+
+  // Applied locally first so the chip responds immediately; realtime echoes are deduplicated
+  const toggleReaction = async (message: Message, emoji: string) => {
+    const reaction = { message_id: message.id, user_id: currentUser.id, emoji };
+    const reacted = (reactions[message.id] ?? []).some(current => isSameReaction(current, reaction));
+    const apply = (add: boolean) => setReactions(prev => ({
+      ...prev,
+      [message.id]: add
+        ? [...(prev[message.id] ?? []).filter(current => !isSameReaction(current, reaction)), reaction]
+        : (prev[message.id] ?? []).filter(current => !isSameReaction(current, reaction)),
+    }));
+
+    setReactionPickerFor(null);
+    apply(!reacted);
     try {
-      await supabase
-        .from('typing_status')
-        .upsert({
-          user_id: currentUser.id,
-          conversation_with: selectedProfile.user_id,
-          is_typing: typing,
+      if (reacted) {
+        await removeReaction(message.id, currentUser.id, emoji);
+      } else {
+        await addReaction(message.id, currentUser.id, emoji);
+      }
+    } catch (error) {
+      apply(reacted);
+      console.error('Error updating reaction:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update reaction",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Touch devices have no hover, so a long press opens the picker instead
+  const handleTouchStart = (message: Message) => {
+    if (message.deleted_at) return;
+    longPressRef.current = setTimeout(() => setReactionPickerFor(message.id), 500);
+  };
+
+  const handleTouchEnd = () => {
+    if (longPressRef.current) clearTimeout(longPressRef.current);
+    longPressRef.current = null;
+  };
+
+  const handleStartReply = (message: Message) => {
+    if (editingMessage) handleCancelEdit();
+    setReplyingTo(message);
+  };
+
+  const highlightMessage = (messageId: string) => {
+    setHighlightedId(messageId);
+    setTimeout(() => setHighlightedId(current => current === messageId ? null : current), 2000);
+  };
+
+  // Scrolls to a message, paging back through older history if it isn't loaded yet
+  const jumpToMessage = async (messageId: string) => {
+    const index = messages.findIndex(message => message.id === messageId);
+    if (index >= 0) {
+      stickToBottomRef.current = false;
+      virtualizer.scrollToIndex(index, { align: 'center' });
+      highlightMessage(messageId);
+      return;
+    }
+
+    if (!olderCursor || loadingOlder) return;
+    setLoadingOlder(true);
+    try {
+      const result = await fetchPagesUntil(chatTarget, olderCursor, messageId);
+      stickToBottomRef.current = false;
+      if (result.found) pendingJumpRef.current = messageId;
+      setMessages(prev => mergeOlderPage(prev, result.messages));
+      setHasOlder(result.hasMore);
+      setOlderCursor(result.cursor);
+      loadPageExtras(result.messages);
+
+      if (result.found) {
+        highlightMessage(messageId);
+      } else {
+        toast({
+          title: "Message not found",
+          description: "The original message is too far back or no longer available",
         });
+      }
+    } catch (error) {
+      console.error('Error loading original message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the original message",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  jumpToMessageRef.current = jumpToMessage;
+
+  // Search results open the chat first, so wait for the latest page before jumping
+  useEffect(() => {
+    if (jumpRequest && historyLoaded) jumpToMessageRef.current?.(jumpRequest.messageId);
+  }, [jumpRequest, historyLoaded]);
+
+  const handleDeleteForEveryone = async (message: Message) => {
+    const attachments = getDecryptedAttachments(message.id);
+    try {
+      await deleteMessageForEveryone(message);
+      if (editingMessage?.id === message.id) handleCancelEdit();
+      // The tombstone no longer references the blobs, so clean them up best effort
+      removeAttachments(attachments).catch(error =>
+        console.error('Error removing attachments:', error)
+      );
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete message",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRetrySend = (message: Message) => {
+    retryMessage(currentUser.id, message.id);
+  };
+
+  // Attachments were uploaded before the message was queued, so they go too
+  const handleDiscardSend = (message: Message) => {
+    discardMessage(currentUser.id, message.id);
+    setMessages(prev => prev.filter(existing => existing.id !== message.id));
+    removeAttachments(getDecryptedAttachments(message.id)).catch(error =>
+      console.error('Error removing attachments:', error)
+    );
+  };
+
+  const handleDeleteForMe = async (message: Message) => {
+    try {
+      await hideMessage(currentUser.id, message.id);
+      removeFromIndex(currentUser.id, [message.id]).catch(error => console.error('Error updating search index:', error));
+      setMessages(prev => prev.filter(existing => existing.id !== message.id));
+      if (editingMessage?.id === message.id) handleCancelEdit();
     } catch (error) {
-      console.error('Error updating typing status:', error);
+      console.error('Error hiding message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete message",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleUnfriend = async () => {
+    try {
+      await unfriend(currentUser.id, selectedProfile.user_id);
+      toast({
+        title: "Friend removed",
+        description: `${selectedProfile.display_name || selectedProfile.username} is no longer in your contacts`,
+      });
+      onUnfriend?.();
+    } catch (error) {
+      console.error('Error removing friend:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove friend",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleMute = async () => {
+    try {
+      if (muted) {
+        await unmuteConversation(currentUser.id, chatId);
+      } else {
+        await muteConversation(currentUser.id, chatId);
+      }
+      onMutedChange?.();
+    } catch (error) {
+      console.error('Error updating mute:', error);
+      toast({
+        title: "Error",
+        description: muted ? "Failed to unmute conversation" : "Failed to mute conversation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleBlock = async () => {
+    const name = selectedProfile.display_name || selectedProfile.username;
+    try {
+      if (blocked) {
+        await unblockUser(currentUser.id, selectedProfile.user_id);
+      } else {
+        await blockUser(currentUser.id, selectedProfile.user_id);
+      }
+      setBlocked(!blocked);
+      toast({
+        title: blocked ? "User unblocked" : "User blocked",
+        description: blocked
+          ? `${name} can message you again`
+          : `${name} can no longer message you or see when you're online`,
+      });
+    } catch (error) {
+      console.error('Error updating block:', error);
+      toast({
+        title: "Error",
+        description: blocked ? "Failed to unblock user" : "Failed to block user",
+        variant: "destructive",
+      });
     }
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
+    if (e.key === 'Escape' && editingMessage) {
+      handleCancelEdit();
+      return;
+    }
+    // Shift+Enter falls through to the textarea and inserts a newline
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
       e.preventDefault();
       sendMessage();
-      updateTypingStatus(false);
     }
   };
 
   const handleInputChange = (value: string) => {
     setNewMessage(value);
-    updateTypingStatus(value.length > 0);
-    
-    // Clear typing status after 3 seconds of no typing
-    setTimeout(() => {
-      if (value === newMessage) {
-        updateTypingStatus(false);
-      }
-    }, 3000);
+    // Throttled; when typing pauses, the last event runs out by itself
+    if (value.trim()) {
+      typingRef.current?.notifyTyping();
+    } else {
+      typingRef.current?.stopTyping();
+    }
+  };
+
+  const getSenderName = (senderId: string) => {
+    if (senderId === currentUser.id) return 'You';
+    if (!selectedGroup) return selectedProfile.display_name || selectedProfile.username;
+    const sender = membersById.get(senderId)?.profile;
+    return sender ? sender.display_name || sender.username : 'Former member';
+  };
+
+  const renderReplyQuote = (message: Message, isOwn: boolean) => {
+    const parent = messagesById.get(message.reply_to_id) ?? parents[message.reply_to_id];
+    const snippet = !parent
+      ? 'Original message unavailable'
+      : parent.deleted_at
+        ? 'Message deleted'
+        : getSnippet(parent.id) ?? (parent.id in decryptedContents ? '🔒 Encrypted message' : '…');
+
+    return (
+      <button
+        type="button"
+        disabled={!parent}
+        onClick={() => parent && jumpToMessage(parent.id)}
+        className={`block w-full text-left mb-2 rounded border-l-2 px-2 py-1 text-xs ${
+          isOwn ? 'border-primary-foreground/60 bg-primary-foreground/10' : 'border-primary bg-background/40'
+        }`}
+      >
+        {parent && <p className="font-medium">{getSenderName(parent.sender_id)}</p>}
+        <p className="truncate opacity-80">{snippet}</p>
+      </button>
+    );
+  };
+
+  const renderReactionPicker = (message: Message, isOwn: boolean) => (
+    <Popover
+      open={reactionPickerFor === message.id}
+      onOpenChange={(open) => setReactionPickerFor(open ? message.id : null)}
+    >
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="absolute top-1 right-6 rounded-sm p-0.5 opacity-0 transition-opacity group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+        >
+          <SmilePlus className="h-3 w-3" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align={isOwn ? "end" : "start"} className="w-auto p-1 flex space-x-1">
+        {QUICK_REACTIONS.map((emoji) => (
+          <Button key={emoji} variant="ghost" size="sm" className="text-lg px-2" onClick={() => toggleReaction(message, emoji)}>
+            {emoji}
+          </Button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+
+  const renderReactions = (message: Message, isOwn: boolean) => {
+    const summaries = summarizeReactions(reactions[message.id] ?? []);
+    if (summaries.length === 0) return null;
+
+    return (
+      <div className={`flex flex-wrap gap-1 mt-1 ${isOwn ? 'justify-end' : 'justify-start'}`}>
+        {summaries.map(({ emoji, userIds }) => {
+          const mine = userIds.includes(currentUser.id);
+          return (
+            <Tooltip key={emoji}>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  disabled={!!message.deleted_at}
+                  onClick={() => toggleReaction(message, emoji)}
+                  className={`flex items-center space-x-1 rounded-full border px-2 py-0.5 text-xs ${
+                    mine ? 'border-primary bg-primary/15' : 'border-border bg-card'
+                  }`}
+                >
+                  <span>{emoji}</span>
+                  <span>{userIds.length}</span>
+                </button>
+              </TooltipTrigger>
+              <TooltipContent>
+                {userIds.map(getSenderName).join(', ')}
+              </TooltipContent>
+            </Tooltip>
+          );
+        })}
+      </div>
+    );
   };
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  const renderMessageActions = (message: Message, isOwn: boolean) => {
+    const canEdit = isOwn && !message.deleted_at && getDecryptedText(message.id) !== null;
+
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            className="absolute top-1 right-1 rounded-sm p-0.5 opacity-0 transition-opacity group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+          >
+            <ChevronDown className="h-3 w-3" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align={isOwn ? "end" : "start"}>
+          {!message.deleted_at && (
+            <DropdownMenuItem onClick={() => handleStartReply(message)}>
+              <Reply className="h-4 w-4 mr-2" />
+              Reply
+            </DropdownMenuItem>
+          )}
+          {canEdit && (
+            <DropdownMenuItem onClick={() => handleStartEdit(message)}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => handleDeleteForMe(message)}>
+            <EyeOff className="h-4 w-4 mr-2" />
+            Delete for me
+          </DropdownMenuItem>
+          {isOwn && !message.deleted_at && (
+            <DropdownMenuItem onClick={() => handleDeleteForEveryone(message)} className="text-destructive">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete for everyone
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
+  const renderDeliveryState = (message: Message) => {
+    const queued = outboxById.get(message.id);
+    if (queued?.status === 'pending') return <Clock className="h-3 w-3" />;
+    if (queued?.status === 'failed') return <AlertCircle className="h-3 w-3 text-destructive" />;
+
+    const recipientCount = selectedGroup ? groupMembers.length - 1 : 1;
+    const state = getDeliveryState(receipts[message.id] ?? [], recipientCount, readReceiptsEnabled);
+    if (state === 'sent') return <Check className="h-3 w-3" />;
+    return <CheckCheck className={`h-3 w-3 ${state === 'read' ? 'text-sky-300' : ''}`} />;
+  };
+
+  const renderMessageContent = (message: Message, result: DecryptResult | undefined, isOwn: boolean) => {
+    const placeholderClass = `text-sm italic flex items-center space-x-2 ${
+      isOwn ? 'text-primary-foreground/80' : 'text-muted-foreground'
+    }`;
+
+    if (message.deleted_at) {
+      return (
+        <p className={placeholderClass}>
+          <Ban className="h-4 w-4 shrink-0" />
+          <span>This message was deleted</span>
+        </p>
+      );
+    }
+
+    switch (result?.status) {
+      case undefined:
+        return <p className="text-sm">…</p>;
+      case 'ok': {
+        const attachments = sanitizeAttachments(result.attachments);
+        return (
+          <>
+            {attachments.length > 0 && <MessageAttachments attachments={attachments} isOwn={isOwn} />}
+            {result.text && <MessageMarkdown content={result.text} isOwn={isOwn} />}
+            {sanitizePreviews(result.previews).map((preview) => (
+              <div key={preview.url} className="mt-2">
+                <LinkPreviewCard preview={preview} isOwn={isOwn} />
+              </div>
+            ))}
+          </>
+        );
+      }
+      case 'legacy':
+        return (
+          <>
+            <MessageMarkdown content={result.text} isOwn={isOwn} />
+            <p className={`text-xs mt-1 ${isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+              Sent with legacy encryption
+            </p>
+          </>
+        );
+      case 'unknown-key':
+        return (
+          <p className={placeholderClass}>
+            <Lock className="h-4 w-4 shrink-0" />
+            <span>Can't decrypt this message. The key isn't available on this device.</span>
+          </p>
+        );
+      case 'tampered':
+        return (
+          <p className={placeholderClass}>
+            <ShieldAlert className="h-4 w-4 shrink-0" />
+            <span>This message failed its integrity check and may have been altered.</span>
+          </p>
+        );
+      case 'unsupported':
+        return (
+          <p className={placeholderClass}>
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span>This message uses a format this version of ChatVibe can't read.</span>
+          </p>
+        );
+    }
   };
 
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'online': return 'bg-chat-online';
-      case 'away': return 'bg-chat-away';
-      default: return 'bg-chat-offline';
-    }
+  // Do Not Disturb stands in for online or away, and a custom status follows it
+  const getPeerStatusLine = () => {
+    const availability = presence.status === 'offline'
+      ? lastSeen ? `Last seen ${formatLastSeen(lastSeen)}` : 'Last seen recently'
+      : isDndActive(peerStatus) ? 'Do not disturb' : presence.status === 'online' ? 'Online' : 'Away';
+    const status = getActiveStatus(peerStatus);
+    return status ? `${availability} · ${formatStatus(status)}` : availability;
   };
 
   return (
@@ -203,24 +1289,44 @@ export function ChatWindow({ currentUser, selectedProfile }: ChatWindowProps) {
       {/* Header */}
       <div className="p-4 border-b border-border bg-card/30">
         <div className="flex items-center justify-between">
-          <div className="flex items-center space-x-3">
-            <div className="relative">
+          {selectedGroup ? (
+            <div className="flex items-center space-x-3">
               <Avatar className="h-10 w-10">
-                <AvatarImage src={selectedProfile.avatar_url} />
-                <AvatarFallback>{getInitials(selectedProfile.display_name || selectedProfile.username)}</AvatarFallback>
+                <AvatarFallback>{getInitials(selectedGroup.name)}</AvatarFallback>
               </Avatar>
-              <div className={`absolute -bottom-1 -right-1 w-3 h-3 ${getStatusColor(selectedProfile.status)} rounded-full border-2 border-card`}></div>
+              <div>
+                <h3 className="font-semibold">{selectedGroup.name}</h3>
+                <p className="text-sm text-muted-foreground">
+                  {groupMembers.length} {groupMembers.length === 1 ? 'member' : 'members'}
+                </p>
+              </div>
             </div>
-            <div>
-              <h3 className="font-semibold flex items-center space-x-2">
-                <span>{selectedProfile.display_name || selectedProfile.username}</span>
-                <Shield className="h-4 w-4 text-green-500" />
-              </h3>
-              <p className="text-sm text-muted-foreground">
-                {selectedProfile.status === 'online' ? 'Online' : 'Last seen recently'}
-              </p>
+          ) : (
+            <div className="flex items-center space-x-3">
+              <div className="relative">
+                <Avatar className="h-10 w-10">
+                  <AvatarImage src={selectedProfile.avatar_url} />
+                  <AvatarFallback>{getInitials(selectedProfile.display_name || selectedProfile.username)}</AvatarFallback>
+                </Avatar>
+                <PresenceDot userId={selectedProfile.user_id} dnd={isDndActive(peerStatus)} />
+              </div>
+              <div>
+                <h3 className="font-semibold flex items-center space-x-2">
+                  <span>{selectedProfile.display_name || selectedProfile.username}</span>
+                  {verificationState === 'verified' ? (
+                    <ShieldCheck className="h-4 w-4 text-green-500" />
+                  ) : verificationState === 'key-changed' ? (
+                    <ShieldAlert className="h-4 w-4 text-destructive" />
+                  ) : (
+                    <Shield className="h-4 w-4 text-muted-foreground" />
+                  )}
+                </h3>
+                <p className="text-sm text-muted-foreground truncate">
+                  {getPeerStatusLine()}
+                </p>
+              </div>
             </div>
-          </div>
+          )}
           <div className="flex items-center space-x-2">
             <Button variant="ghost" size="sm">
               <Phone className="h-4 w-4" />
@@ -228,80 +1334,296 @@ export function ChatWindow({ currentUser, selectedProfile }: ChatWindowProps) {
             <Button variant="ghost" size="sm">
               <Video className="h-4 w-4" />
             </Button>
-            <Button variant="ghost" size="sm">
-              <MoreVertical className="h-4 w-4" />
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm">
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {selectedGroup ? (
+                  <DropdownMenuItem onClick={() => setGroupSettingsOpen(true)}>
+                    <Users className="h-4 w-4 mr-2" />
+                    Group settings
+                  </DropdownMenuItem>
+                ) : (
+                  <DropdownMenuItem onClick={() => setVerifyOpen(true)}>
+                    <Shield className="h-4 w-4 mr-2" />
+                    Verify security code
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={handleToggleMute}>
+                  {muted ? <Bell className="h-4 w-4 mr-2" /> : <BellOff className="h-4 w-4 mr-2" />}
+                  {muted ? "Unmute notifications" : "Mute notifications"}
+                </DropdownMenuItem>
+                {!selectedGroup && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={handleToggleBlock} className={blocked ? undefined : "text-destructive"}>
+                      <Ban className="h-4 w-4 mr-2" />
+                      {blocked ? "Unblock" : "Block"}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleUnfriend} className="text-destructive">
+                      <UserMinus className="h-4 w-4 mr-2" />
+                      Unfriend
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
       </div>
 
       {/* Messages */}
-      <ScrollArea className="flex-1 p-4">
-        <div className="space-y-4">
-          {messages.length === 0 ? (
-            <div className="text-center py-8 text-muted-foreground">
-              <p>No messages yet. Start the conversation!</p>
-            </div>
-          ) : (
-            messages.map((message) => {
+      <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-4">
+        {loadingOlder && (
+          <p className="text-center text-xs text-muted-foreground pb-4">Loading older messages…</p>
+        )}
+        {messages.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>{historyLoaded ? 'No messages yet. Start the conversation!' : 'Loading messages…'}</p>
+          </div>
+        ) : (
+          <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+            {virtualizer.getVirtualItems().map((item) => {
+              const message = messages[item.index];
               const isOwn = message.sender_id === currentUser.id;
+              const showSender = !!selectedGroup && !isOwn;
+              const sender = membersById.get(message.sender_id)?.profile;
+              const senderName = sender ? sender.display_name || sender.username : 'Former member';
               return (
-                <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
-                  <div className={`max-w-[70%] ${isOwn ? 'order-1' : 'order-2'}`}>
-                    <Card className={`p-3 ${
-                      isOwn 
-                        ? 'bg-chat-bubble-user text-primary-foreground ml-auto' 
-                        : 'bg-chat-bubble-other'
-                    }`}>
-                      <p className="text-sm">{decryptMessage(message.content)}</p>
-                      <p className={`text-xs mt-1 ${
-                        isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'
-                      }`}>
-                        {format(new Date(message.created_at), 'HH:mm')}
-                      </p>
-                    </Card>
+                <div
+                  key={item.key}
+                  data-index={item.index}
+                  ref={virtualizer.measureElement}
+                  className="absolute left-0 top-0 w-full pb-4"
+                  style={{ transform: `translateY(${item.start}px)` }}
+                >
+                  <div className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                    {showSender && (
+                      <Avatar className="h-8 w-8 mr-2 mt-1">
+                        <AvatarImage src={sender?.avatar_url ?? undefined} />
+                        <AvatarFallback className="text-xs">{getInitials(senderName)}</AvatarFallback>
+                      </Avatar>
+                    )}
+                    <div className={`min-w-0 max-w-[70%] ${isOwn ? 'order-1' : 'order-2'}`}>
+                      <Card
+                        onTouchStart={() => handleTouchStart(message)}
+                        onTouchEnd={handleTouchEnd}
+                        onTouchMove={handleTouchEnd}
+                        className={`group relative p-3 ${
+                          isOwn 
+                            ? 'bg-chat-bubble-user text-primary-foreground ml-auto' 
+                            : 'bg-chat-bubble-other'
+                        } ${editingMessage?.id === message.id || highlightedId === message.id ? 'ring-2 ring-ring' : ''}`}
+                      >
+                        {showSender && (
+                          <p className="text-xs font-medium text-primary mb-1">{senderName}</p>
+                        )}
+                        {message.reply_to_id && !message.deleted_at && renderReplyQuote(message, isOwn)}
+                        {renderMessageContent(message, decryptedContents[message.id], isOwn)}
+                        <p className={`text-xs mt-1 flex items-center gap-1 ${
+                          isOwn ? 'text-primary-foreground/70 justify-end' : 'text-muted-foreground'
+                        }`}>
+                          {message.edited_at && !message.deleted_at && (
+                            <EditHistoryPopover message={message} currentUserId={currentUser.id} />
+                          )}
+                          {format(new Date(message.created_at), 'HH:mm')}
+                          {isOwn && renderDeliveryState(message)}
+                        </p>
+                        {!message.deleted_at && !outboxById.has(message.id) && renderReactionPicker(message, isOwn)}
+                        {!outboxById.has(message.id) && renderMessageActions(message, isOwn)}
+                      </Card>
+                      {outboxById.get(message.id)?.status === 'failed' && (
+                        <div className="flex items-center justify-end gap-1 mt-1 text-xs text-destructive">
+                          <span className="truncate">{outboxById.get(message.id)?.error ?? 'Not sent'}</span>
+                          <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => handleRetrySend(message)}>
+                            <RotateCw className="h-3 w-3 mr-1" />
+                            Retry
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => handleDiscardSend(message)}>
+                            <Trash2 className="h-3 w-3 mr-1" />
+                            Discard
+                          </Button>
+                        </div>
+                      )}
+                      {renderReactions(message, isOwn)}
+                    </div>
                   </div>
                 </div>
               );
-            })
-          )}
-          
-          {isTyping && (
-            <div className="flex justify-start">
-              <Card className="p-3 bg-chat-bubble-other">
-                <div className="flex space-x-1">
-                  <div className="w-2 h-2 bg-muted-foreground rounded-full animate-pulse"></div>
-                  <div className="w-2 h-2 bg-muted-foreground rounded-full animate-pulse delay-100"></div>
-                  <div className="w-2 h-2 bg-muted-foreground rounded-full animate-pulse delay-200"></div>
-                </div>
-              </Card>
-            </div>
-          )}
-          
-          <div ref={messagesEndRef} />
-        </div>
-      </ScrollArea>
+            })}
+          </div>
+        )}
+
+        {typingUserIds.length > 0 && (
+          <div className="flex items-center justify-start space-x-2">
+            <Card className="p-3 bg-chat-bubble-other">
+              <div className="flex space-x-1">
+                <div className="w-2 h-2 bg-muted-foreground rounded-full animate-pulse"></div>
+                <div className="w-2 h-2 bg-muted-foreground rounded-full animate-pulse delay-100"></div>
+                <div className="w-2 h-2 bg-muted-foreground rounded-full animate-pulse delay-200"></div>
+              </div>
+            </Card>
+            <span className="text-xs text-muted-foreground">
+              {describeTyping(typingUserIds.map(getSenderName))}
+            </span>
+          </div>
+        )}
+      </div>
 
       {/* Message Input */}
       <div className="p-4 border-t border-border bg-card/30">
-        <div className="flex items-center space-x-2">
-          <Input
-            placeholder="Type a message..."
-            value={newMessage}
-            onChange={(e) => handleInputChange(e.target.value)}
-            onKeyPress={handleKeyPress}
-            className="flex-1"
-            disabled={loading}
-          />
-          <Button 
-            onClick={sendMessage} 
-            disabled={loading || !newMessage.trim()}
-            size="sm"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
-        </div>
+        {blocked ? (
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>You blocked {selectedProfile.display_name || selectedProfile.username}.</span>
+            <Button variant="outline" size="sm" onClick={handleToggleBlock}>
+              Unblock
+            </Button>
+          </div>
+        ) : (
+          <>
+            {replyingTo && (
+              <div className="flex items-center justify-between mb-2 text-sm text-muted-foreground">
+                <span className="flex items-center min-w-0">
+                  <Reply className="h-3 w-3 mr-2 shrink-0" />
+                  <span className="truncate">
+                    Replying to {getSenderName(replyingTo.sender_id)}
+                    {getSnippet(replyingTo.id) !== null && <>: {getSnippet(replyingTo.id)}</>}
+                  </span>
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => setReplyingTo(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            {editingMessage && (
+              <div className="flex items-center justify-between mb-2 text-sm text-muted-foreground">
+                <span className="flex items-center">
+                  <Pencil className="h-3 w-3 mr-2" />
+                  Editing message
+                </span>
+                <Button variant="ghost" size="sm" onClick={handleCancelEdit}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            {draftUrl && draftPreview?.url !== draftUrl && (
+              <div className="mb-2">
+                <Button variant="ghost" size="sm" onClick={handleAddPreview} disabled={loadingPreviewUrl === draftUrl}>
+                  {loadingPreviewUrl === draftUrl
+                    ? <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                    : <Link2 className="h-3 w-3 mr-2" />}
+                  Add link preview
+                </Button>
+              </div>
+            )}
+            {draftPreview?.preview && draftPreview.url === draftUrl && (
+              <div className="mb-2">
+                <LinkPreviewCard preview={draftPreview.preview} onDismiss={() => setDraftPreview(null)} />
+              </div>
+            )}
+            {pendingAttachments.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-2">
+                {pendingAttachments.map((attachment) => (
+                  <div key={attachment.id} className="flex items-center space-x-2 rounded-md border border-border bg-background px-2 py-1 text-xs max-w-[14rem]">
+                    {attachment.kind === 'voice' ? <Mic className="h-3 w-3 shrink-0" /> : <Paperclip className="h-3 w-3 shrink-0" />}
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate">{attachment.name}</p>
+                      {attachment.id in uploadProgress ? (
+                        <Progress value={uploadProgress[attachment.id] * 100} className="h-1 mt-1" />
+                      ) : (
+                        <p className="text-muted-foreground">{formatFileSize(attachment.file.size)}</p>
+                      )}
+                    </div>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => removePendingAttachment(attachment.id)} disabled={loading}>
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {voiceRecorder.recording ? (
+              <div className="flex items-center space-x-2">
+                <span className="h-2 w-2 rounded-full bg-destructive animate-pulse" />
+                <span className="flex-1 text-sm text-muted-foreground">
+                  Recording {format(voiceRecorder.elapsed * 1000, 'm:ss')} / {format(MAX_VOICE_NOTE_SECONDS * 1000, 'm:ss')}
+                </span>
+                <Button variant="ghost" size="sm" onClick={voiceRecorder.cancel}>
+                  <X className="h-4 w-4" />
+                </Button>
+                <Button size="sm" onClick={() => voiceRecorder.stop().then(addVoiceNote)}>
+                  <Square className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-end space-x-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={handleFilesSelected}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={loading || !!editingMessage}
+                >
+                  <Paperclip className="h-4 w-4" />
+                </Button>
+                <Textarea
+                  ref={composerRef}
+                  rows={1}
+                  placeholder="Type a message..."
+                  value={newMessage}
+                  onChange={(e) => handleInputChange(e.target.value)}
+                  onKeyDown={handleKeyPress}
+                  className="flex-1 min-h-10 max-h-40 resize-none"
+                  disabled={loading}
+                />
+                {!newMessage.trim() && pendingAttachments.length === 0 && !editingMessage ? (
+                  <Button size="sm" onClick={handleStartRecording} disabled={loading}>
+                    <Mic className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button 
+                    onClick={sendMessage} 
+                    disabled={loading || (!newMessage.trim() && pendingAttachments.length === 0 && (!editingMessage || getDecryptedAttachments(editingMessage.id).length === 0))}
+                    size="sm"
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            )}
+          </>
+        )}
       </div>
+
+      {selectedGroup ? (
+        <GroupSettingsDialog
+          open={groupSettingsOpen}
+          onOpenChange={setGroupSettingsOpen}
+          currentUserId={currentUser.id}
+          group={selectedGroup}
+          members={groupMembers}
+          onMembersChange={fetchMembers}
+          onLeave={() => onLeaveGroup?.()}
+        />
+      ) : (
+        <VerifyContactDialog
+          open={verifyOpen}
+          onOpenChange={setVerifyOpen}
+          currentUserId={currentUser.id}
+          contactId={selectedProfile.user_id}
+          contactName={selectedProfile.display_name || selectedProfile.username}
+          verificationState={verificationState}
+          onVerificationChange={fetchVerificationState}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Users } from "lucide-react";
+import { EncryptionError } from "@/lib/encryption";
+import { createGroup } from "@/lib/groups";
+
+interface Profile {
+  user_id: string;
+  username: string;
+  display_name: string;
+  avatar_url?: string;
+}
+
+interface CreateGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUserId: string;
+  contacts: Profile[];
+  onCreated: (groupId: string) => void;
+}
+
+export function CreateGroupDialog({ open, onOpenChange, currentUserId, contacts, onCreated }: CreateGroupDialogProps) {
+  const [name, setName] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const toggleMember = (userId: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, userId] : prev.filter(id => id !== userId));
+  };
+
+  const handleCreate = async () => {
+    setLoading(true);
+    try {
+      const groupId = await createGroup(currentUserId, name.trim(), selectedIds);
+      toast({
+        title: "Group created 🎉",
+        description: `${name.trim()} is ready to chat`,
+      });
+      setName("");
+      setSelectedIds([]);
+      onOpenChange(false);
+      onCreated(groupId);
+    } catch (error) {
+      console.error('Error creating group:', error);
+      toast({
+        title: "Error",
+        description: error instanceof EncryptionError
+          ? `Couldn't set up group encryption: ${error.message}`
+          : "Failed to create group",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getInitials = (value: string) => {
+    return value.split(' ').map(n => n[0]).join('').toUpperCase();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Users className="h-5 w-5" />
+            <span>New group</span>
+          </DialogTitle>
+          <DialogDescription>
+            Name your group and pick who to invite
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="newGroupName">Group name</Label>
+            <Input
+              id="newGroupName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Platform team"
+            />
+          </div>
+
+          <ScrollArea className="h-56 rounded-md border border-border p-2">
+            {contacts.map((profile) => (
+              <label key={profile.user_id} className="flex items-center space-x-3 p-2 rounded-md hover:bg-muted cursor-pointer">
+                <Checkbox
+                  checked={selectedIds.includes(profile.user_id)}
+                  onCheckedChange={(checked) => toggleMember(profile.user_id, checked === true)}
+                />
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={profile.avatar_url} />
+                  <AvatarFallback className="text-xs">{getInitials(profile.display_name || profile.username)}</AvatarFallback>
+                </Avatar>
+                <span className="text-sm truncate">{profile.display_name || profile.username}</span>
+              </label>
+            ))}
+          </ScrollArea>
+
+          <Button
+            onClick={handleCreate}
+            disabled={loading || !name.trim() || selectedIds.length === 0}
+            className="w-full"
+          >
+            {loading ? "Creating..." : `Create group${selectedIds.length > 0 ? ` with ${selectedIds.length}` : ''}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
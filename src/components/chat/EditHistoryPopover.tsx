@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { format } from "date-fns";
+import { fetchEditHistory, type Message, type MessageVersion } from "@/lib/messages";
+
+interface EditHistoryPopoverProps {
+  message: Message;
+  currentUserId: string;
+  className?: string;
+}
+
+// History is fetched and decrypted only when someone actually opens it
+export function EditHistoryPopover({ message, currentUserId, className }: EditHistoryPopoverProps) {
+  const [versions, setVersions] = useState<MessageVersion[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+
+    setLoading(true);
+    try {
+      setVersions(await fetchEditHistory(message, currentUserId));
+    } catch (error) {
+      console.error('Error fetching edit history:', error);
+      setVersions([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button type="button" className={`underline-offset-2 hover:underline ${className ?? ''}`}>
+          edited
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3">
+        <p className="text-sm font-medium">Edit history</p>
+        {loading || versions === null ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No earlier versions available</p>
+        ) : (
+          versions.map((version) => (
+            <div key={version.created_at} className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(version.created_at), 'MMM d, HH:mm')}
+              </p>
+              <p className="text-sm break-words">
+                {version.result.status === 'ok' || version.result.status === 'legacy'
+                  ? version.result.text
+                  : <span className="italic text-muted-foreground">Can't decrypt this version</span>}
+              </p>
+            </div>
+          ))
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
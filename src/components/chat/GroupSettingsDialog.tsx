@@ -0,0 +1,236 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Users, UserPlus, UserMinus, LogOut, Save } from "lucide-react";
+import {
+  addGroupMembers,
+  canManageMembers,
+  canRemoveMember,
+  leaveGroup,
+  removeGroupMember,
+  renameGroup,
+  setGroupMemberRole,
+  type Group,
+  type GroupMember,
+} from "@/lib/groups";
+import { fetchFriendProfiles } from "@/lib/friends";
+
+interface Profile {
+  user_id: string;
+  username: string;
+  display_name: string | null;
+  avatar_url?: string | null;
+}
+
+interface GroupSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUserId: string;
+  group: Group;
+  members: GroupMember[];
+  onMembersChange: () => void;
+  onLeave: () => void;
+}
+
+export function GroupSettingsDialog({
+  open,
+  onOpenChange,
+  currentUserId,
+  group,
+  members,
+  onMembersChange,
+  onLeave,
+}: GroupSettingsDialogProps) {
+  const [name, setName] = useState(group.name);
+  const [candidates, setCandidates] = useState<Profile[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const myRole = members.find(member => member.user_id === currentUserId)?.role ?? 'member';
+  const memberIds = members.map(member => member.user_id);
+
+  useEffect(() => {
+    setName(group.name);
+  }, [group.name]);
+
+  useEffect(() => {
+    if (!open || !canManageMembers(myRole)) return;
+    fetchCandidates();
+  }, [open, myRole]);
+
+  // Only friends can be added, matching who appears in the contact list
+  const fetchCandidates = async () => {
+    try {
+      setCandidates(await fetchFriendProfiles(currentUserId));
+    } catch (error) {
+      console.error('Error fetching friends:', error);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setLoading(true);
+    try {
+      await action();
+      onMembersChange();
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        title: "Error",
+        description: failure,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRename = () => runAction(async () => {
+    await renameGroup(group.id, name.trim());
+    toast({ title: "Group renamed", description: `This group is now called ${name.trim()}` });
+  }, "Failed to rename group");
+
+  const handleAdd = (userId: string) => runAction(
+    () => addGroupMembers(group.id, currentUserId, [userId]),
+    "Failed to add member"
+  );
+
+  const handleRemove = (userId: string) => runAction(
+    () => removeGroupMember(group.id, userId),
+    "Failed to remove member"
+  );
+
+  const handleToggleAdmin = (member: GroupMember) => runAction(
+    () => setGroupMemberRole(group.id, member.user_id, member.role === 'admin' ? 'member' : 'admin'),
+    "Failed to change role"
+  );
+
+  const handleLeave = () => runAction(async () => {
+    await leaveGroup(group.id, currentUserId);
+    onOpenChange(false);
+    onLeave();
+  }, "Failed to leave group");
+
+  const getInitials = (value: string) => {
+    return value.split(' ').map(n => n[0]).join('').toUpperCase();
+  };
+
+  const filteredCandidates = candidates.filter(profile =>
+    !memberIds.includes(profile.user_id) && (
+      profile.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      profile.display_name?.toLowerCase().includes(searchTerm.toLowerCase())
+    )
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Users className="h-5 w-5" />
+            <span>Group settings</span>
+          </DialogTitle>
+          <DialogDescription>
+            Manage the name and members of {group.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-4">
+          {canManageMembers(myRole) && (
+            <div>
+              <Label htmlFor="groupName">Group name</Label>
+              <div className="flex items-center space-x-2">
+                <Input id="groupName" value={name} onChange={(e) => setName(e.target.value)} />
+                <Button
+                  variant="outline"
+                  onClick={handleRename}
+                  disabled={loading || !name.trim() || name.trim() === group.name}
+                >
+                  <Save className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="font-medium">Members</h4>
+            {members.map((member) => {
+              const memberName = member.profile?.display_name || member.profile?.username || 'Unknown';
+              const isSelf = member.user_id === currentUserId;
+              return (
+                <div key={member.user_id} className="flex items-center space-x-3">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={member.profile?.avatar_url ?? undefined} />
+                    <AvatarFallback className="text-xs">{getInitials(memberName)}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{memberName}{isSelf && ' (you)'}</p>
+                  </div>
+                  {member.role !== 'member' && (
+                    <Badge variant="secondary" className="text-xs capitalize">{member.role}</Badge>
+                  )}
+                  {!isSelf && myRole === 'owner' && member.role !== 'owner' && (
+                    <Button variant="ghost" size="sm" disabled={loading} onClick={() => handleToggleAdmin(member)}>
+                      {member.role === 'admin' ? 'Demote' : 'Make admin'}
+                    </Button>
+                  )}
+                  {!isSelf && canRemoveMember(myRole, member.role) && (
+                    <Button variant="ghost" size="sm" disabled={loading} onClick={() => handleRemove(member.user_id)}>
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {canManageMembers(myRole) && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <h4 className="font-medium">Add members</h4>
+                <Input
+                  placeholder="Search people..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+                <ScrollArea className="h-40">
+                  {filteredCandidates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No one to add</p>
+                  ) : (
+                    filteredCandidates.map((profile) => (
+                      <div key={profile.user_id} className="flex items-center space-x-3 py-1">
+                        <Avatar className="h-8 w-8">
+                          <AvatarImage src={profile.avatar_url ?? undefined} />
+                          <AvatarFallback className="text-xs">{getInitials(profile.display_name || profile.username)}</AvatarFallback>
+                        </Avatar>
+                        <p className="flex-1 text-sm truncate">{profile.display_name || profile.username}</p>
+                        <Button variant="ghost" size="sm" disabled={loading} onClick={() => handleAdd(profile.user_id)}>
+                          <UserPlus className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))
+                  )}
+                </ScrollArea>
+              </div>
+            </>
+          )}
+
+          <Separator />
+
+          <Button variant="destructive" onClick={handleLeave} disabled={loading} className="w-full">
+            <LogOut className="h-4 w-4 mr-2" />
+            Leave group
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,40 @@
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { LinkPreview } from "@/lib/envelope";
+
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+  isOwn?: boolean;
+  onDismiss?: () => void;
+}
+
+export function LinkPreviewCard({ preview, isOwn, onDismiss }: LinkPreviewCardProps) {
+  const mutedClass = isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground';
+
+  return (
+    <div className={`flex overflow-hidden rounded-md border ${
+      isOwn ? 'border-primary-foreground/30 bg-primary-foreground/10' : 'border-border bg-background/60'
+    }`}>
+      {preview.image && (
+        <img src={preview.image} alt="" className="h-20 w-20 shrink-0 object-cover" />
+      )}
+      <a
+        href={preview.url}
+        target="_blank"
+        rel="noopener noreferrer nofollow"
+        className="min-w-0 flex-1 px-3 py-2"
+      >
+        {preview.siteName && <p className={`text-xs truncate ${mutedClass}`}>{preview.siteName}</p>}
+        <p className="text-sm font-medium truncate">{preview.title}</p>
+        {preview.description && (
+          <p className={`text-xs line-clamp-2 ${mutedClass}`}>{preview.description}</p>
+        )}
+      </a>
+      {onDismiss && (
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0 m-1" onClick={onDismiss}>
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
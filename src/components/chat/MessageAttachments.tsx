@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Download, FileText, Mic, Play, Loader2 } from "lucide-react";
+import { formatFileSize, getAttachmentUrl, saveAttachment } from "@/lib/attachments";
+import type { AttachmentRef } from "@/lib/envelope";
+
+interface MessageAttachmentsProps {
+  attachments: AttachmentRef[];
+  isOwn: boolean;
+}
+
+const formatDuration = (seconds = 0) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// Full files are only downloaded and decrypted when opened, played or saved
+export function MessageAttachments({ attachments, isOwn }: MessageAttachmentsProps) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [loadingPath, setLoadingPath] = useState<string | null>(null);
+  const [preview, setPreview] = useState<AttachmentRef | null>(null);
+  const { toast } = useToast();
+
+  const mutedClass = isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground';
+
+  const load = async (attachment: AttachmentRef) => {
+    setLoadingPath(attachment.path);
+    try {
+      const url = await getAttachmentUrl(attachment);
+      setUrls(prev => ({ ...prev, [attachment.path]: url }));
+      return url;
+    } catch (error) {
+      console.error('Error loading attachment:', error);
+      toast({
+        title: "Error",
+        description: `Couldn't load ${attachment.name}`,
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setLoadingPath(null);
+    }
+  };
+
+  const handleOpenImage = (attachment: AttachmentRef) => {
+    setPreview(attachment);
+    if (!urls[attachment.path]) load(attachment);
+  };
+
+  const handleSave = async (attachment: AttachmentRef) => {
+    setLoadingPath(attachment.path);
+    try {
+      await saveAttachment(attachment);
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      toast({
+        title: "Error",
+        description: `Couldn't download ${attachment.name}`,
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingPath(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2 mb-1">
+      {attachments.map((attachment) => {
+        if (attachment.kind === 'image' && attachment.thumbnail) {
+          return (
+            <button
+              key={attachment.path}
+              type="button"
+              onClick={() => handleOpenImage(attachment)}
+              className="block overflow-hidden rounded-md"
+            >
+              <img
+                src={attachment.thumbnail}
+                alt={attachment.name}
+                width={attachment.width}
+                height={attachment.height}
+                className="max-h-64 w-auto object-cover"
+              />
+            </button>
+          );
+        }
+
+        if (attachment.kind === 'voice') {
+          return (
+            <div key={attachment.path} className="flex items-center space-x-2">
+              {urls[attachment.path] ? (
+                <audio controls autoPlay src={urls[attachment.path]} className="h-10 max-w-full" />
+              ) : (
+                <>
+                  <Button variant="ghost" size="sm" onClick={() => load(attachment)} disabled={loadingPath === attachment.path}>
+                    {loadingPath === attachment.path
+                      ? <Loader2 className="h-4 w-4 animate-spin" />
+                      : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Mic className={`h-4 w-4 ${mutedClass}`} />
+                  <span className={`text-xs ${mutedClass}`}>{formatDuration(attachment.duration)}</span>
+                </>
+              )}
+            </div>
+          );
+        }
+
+        return (
+          <div key={attachment.path} className="flex items-center space-x-2">
+            <FileText className="h-8 w-8 shrink-0" />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm font-medium truncate">{attachment.name}</p>
+              <p className={`text-xs ${mutedClass}`}>{formatFileSize(attachment.size)}</p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => handleSave(attachment)} disabled={loadingPath === attachment.path}>
+              {loadingPath === attachment.path
+                ? <Loader2 className="h-4 w-4 animate-spin" />
+                : <Download className="h-4 w-4" />}
+            </Button>
+          </div>
+        );
+      })}
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="truncate pr-6">{preview?.name}</DialogTitle>
+          </DialogHeader>
+          {preview && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-center">
+                {urls[preview.path] ? (
+                  <img src={urls[preview.path]} alt={preview.name} className="max-h-[70vh] w-auto rounded-md" />
+                ) : (
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                )}
+              </div>
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={() => handleSave(preview)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download ({formatFileSize(preview.size)})
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import ReactMarkdown, { type Components, type Options } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeHighlight from "rehype-highlight";
+
+interface MessageMarkdownProps {
+  content: string;
+  isOwn: boolean;
+}
+
+// The subset messages may use. Anything else (headings, tables, images, raw
+// HTML) is unwrapped to its text so nothing is silently lost. Markdown can't
+// produce spans, so those only ever come from the highlighter.
+const ALLOWED_ELEMENTS = ['p', 'br', 'strong', 'em', 'del', 'code', 'pre', 'ul', 'ol', 'li', 'blockquote', 'a', 'span'];
+
+// Sanitizing runs before highlighting so only classes added by the
+// highlighter itself survive on code spans
+const REHYPE_PLUGINS: Options['rehypePlugins'] = [rehypeSanitize, [rehypeHighlight, { detect: false }]];
+
+const createComponents = (isOwn: boolean): Components => ({
+  p: ({ children }) => <p className="whitespace-pre-wrap break-words">{children}</p>,
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className={`underline underline-offset-2 break-all ${isOwn ? 'text-primary-foreground' : 'text-primary'}`}
+    >
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="list-disc pl-5 space-y-0.5">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 space-y-0.5">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className={`border-l-2 pl-2 ${isOwn ? 'border-primary-foreground/60' : 'border-border'} opacity-90`}>
+      {children}
+    </blockquote>
+  ),
+  pre: ({ children }) => (
+    <pre className="overflow-x-auto rounded-md bg-zinc-950 p-2 text-xs text-zinc-100">{children}</pre>
+  ),
+  code: ({ className, children }) => {
+    // Fenced blocks are wrapped in <pre>, which supplies the surface
+    const block = /\blanguage-|\bhljs\b/.test(className ?? '') || String(children).includes('\n');
+    return block
+      ? <code className={`font-mono ${className ?? ''}`}>{children}</code>
+      : <code className={`rounded px-1 py-0.5 font-mono text-[0.85em] ${isOwn ? 'bg-primary-foreground/20' : 'bg-background/60'}`}>{children}</code>;
+  },
+});
+
+const ownComponents = createComponents(true);
+const otherComponents = createComponents(false);
+
+export function MessageMarkdown({ content, isOwn }: MessageMarkdownProps) {
+  return (
+    <div className="text-sm space-y-2">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={REHYPE_PLUGINS}
+        allowedElements={ALLOWED_ELEMENTS}
+        unwrapDisallowed
+        skipHtml
+        components={isOwn ? ownComponents : otherComponents}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { usePresence } from "@/hooks/use-presence";
+import type { PresenceStatus } from "@/lib/presence";
+
+interface PresenceDotProps {
+  userId: string;
+  className?: string;
+  // Do Not Disturb shows in place of online or away
+  dnd?: boolean;
+}
+
+const STATUS_COLORS: Record<PresenceStatus, string> = {
+  online: 'bg-chat-online',
+  away: 'bg-chat-away',
+  offline: 'bg-chat-offline',
+};
+
+export function PresenceDot({ userId, className = "w-3 h-3", dnd = false }: PresenceDotProps) {
+  const { status } = usePresence(userId);
+  const color = dnd && status !== 'offline' ? 'bg-destructive' : STATUS_COLORS[status];
+  return (
+    <div className={`absolute -bottom-1 -right-1 ${className} ${color} rounded-full border-2 border-card`}></div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,8 +9,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { backupPrivateKey, MIN_PASSPHRASE_LENGTH } from "@/lib/key-backup";
+import { fetchBlockedUsers, unblockUser, type BlockedUser } from "@/lib/blocks";
+import { getReadReceiptsEnabled, setReadReceiptsEnabled } from "@/lib/receipts";
+import { getLinkPreviewsEnabled, setLinkPreviewsEnabled } from "@/lib/link-previews";
+import {
+  LAST_SEEN_VISIBILITY_OPTIONS,
+  getLastSeenVisibility,
+  setLastSeenVisibility,
+  type LastSeenVisibility,
+} from "@/lib/last-seen";
 import { 
   Settings, 
   User, 
@@ -21,7 +32,8 @@ import {
   Sun, 
   Laptop,
   Save,
-  Upload
+  Upload,
+  KeyRound
 } from "lucide-react";
 
 interface SettingsModalProps {
@@ -37,8 +49,79 @@ export function SettingsModal({ open, onOpenChange, currentUser }: SettingsModal
   const [onlineStatus, setOnlineStatus] = useState(true);
   const [theme, setTheme] = useState("dark");
   const [loading, setLoading] = useState(false);
+  const [backupPassphrase, setBackupPassphrase] = useState("");
+  const [backupLoading, setBackupLoading] = useState(false);
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+  const [readReceipts, setReadReceipts] = useState(true);
+  const [linkPreviews, setLinkPreviews] = useState(getLinkPreviewsEnabled);
+  const [lastSeenVisibility, setLastSeenVisibilityState] = useState<LastSeenVisibility>('everyone');
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (!open) return;
+    loadBlockedUsers();
+    getReadReceiptsEnabled(currentUser.id)
+      .then(setReadReceipts)
+      .catch((error) => console.error('Error fetching read receipt setting:', error));
+    getLastSeenVisibility(currentUser.id)
+      .then(setLastSeenVisibilityState)
+      .catch((error) => console.error('Error fetching last seen setting:', error));
+  }, [open]);
+
+  // Turning receipts off also hides everyone else's, so the switch works both ways
+  const handleReadReceiptsChange = async (enabled: boolean) => {
+    setReadReceipts(enabled);
+    try {
+      await setReadReceiptsEnabled(currentUser.id, enabled);
+    } catch (error) {
+      console.error('Error updating read receipts:', error);
+      setReadReceipts(!enabled);
+      toast({
+        title: "Error",
+        description: "Failed to update read receipts",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleLastSeenVisibilityChange = async (visibility: LastSeenVisibility) => {
+    const previous = lastSeenVisibility;
+    setLastSeenVisibilityState(visibility);
+    try {
+      await setLastSeenVisibility(currentUser.id, visibility);
+    } catch (error) {
+      console.error('Error updating last seen visibility:', error);
+      setLastSeenVisibilityState(previous);
+      toast({
+        title: "Error",
+        description: "Failed to update last seen visibility",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const loadBlockedUsers = async () => {
+    try {
+      setBlockedUsers(await fetchBlockedUsers(currentUser.id));
+    } catch (error) {
+      console.error('Error fetching blocked users:', error);
+    }
+  };
+
+  const handleUnblock = async (blockedId: string) => {
+    try {
+      await unblockUser(currentUser.id, blockedId);
+      setBlockedUsers(prev => prev.filter(blocked => blocked.blocked_id !== blockedId));
+    } catch (error) {
+      console.error('Error unblocking user:', error);
+      toast({
+        title: "Error",
+        description: "Failed to unblock user",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSaveProfile = async () => {
     setLoading(true);
     try {
@@ -78,6 +161,27 @@ export function SettingsModal({ open, onOpenChange, currentUser }: SettingsModal
     }
   };
 
+  const handleBackupKeys = async () => {
+    setBackupLoading(true);
+    try {
+      await backupPrivateKey(currentUser.id, backupPassphrase);
+      setBackupPassphrase("");
+      toast({
+        title: "Key Backup Saved 🔐",
+        description: "Use your recovery passphrase to restore your keys on another browser.",
+      });
+    } catch (error) {
+      console.error('Error backing up keys:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to back up your keys",
+        variant: "destructive",
+      });
+    } finally {
+      setBackupLoading(false);
+    }
+  };
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
     onOpenChange(false);
@@ -252,24 +356,118 @@ export function SettingsModal({ open, onOpenChange, currentUser }: SettingsModal
                     <Switch checked disabled />
                   </div>
                   
+                  <Separator />
+
+                  <div className="space-y-2">
+                    <div>
+                      <h4 className="font-medium">Key Backup</h4>
+                      <p className="text-sm text-muted-foreground">
+                        Protect your private key with a recovery passphrase so you can read your messages on other browsers
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        type="password"
+                        value={backupPassphrase}
+                        onChange={(e) => setBackupPassphrase(e.target.value)}
+                        placeholder={`Recovery passphrase (min. ${MIN_PASSPHRASE_LENGTH} characters)`}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={handleBackupKeys}
+                        disabled={backupLoading || backupPassphrase.length < MIN_PASSPHRASE_LENGTH}
+                      >
+                        <KeyRound className="h-4 w-4 mr-2" />
+                        {backupLoading ? "Saving..." : "Back Up"}
+                      </Button>
+                    </div>
+                  </div>
+
                   <Separator />
                   
                   <div className="flex items-center justify-between">
                     <div>
                       <h4 className="font-medium">Read Receipts</h4>
-                      <p className="text-sm text-muted-foreground">Let others know when you've read their messages</p>
+                      <p className="text-sm text-muted-foreground">
+                        Let others know when you've read their messages. When off, you won't see theirs either
+                      </p>
                     </div>
-                    <Switch defaultChecked />
+                    <Switch checked={readReceipts} onCheckedChange={handleReadReceiptsChange} />
                   </div>
                   
+                  <Separator />
+
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h4 className="font-medium">Link Previews</h4>
+                      <p className="text-sm text-muted-foreground">
+                        Offer previews for links you send. The linked site sees this device's request, and only sites that allow it can be previewed
+                      </p>
+                    </div>
+                    <Switch
+                      checked={linkPreviews}
+                      onCheckedChange={(checked) => {
+                        setLinkPreviewsEnabled(checked);
+                        setLinkPreviews(checked);
+                      }}
+                    />
+                  </div>
+
                   <Separator />
                   
                   <div className="flex items-center justify-between">
                     <div>
                       <h4 className="font-medium">Last Seen</h4>
-                      <p className="text-sm text-muted-foreground">Show when you were last active</p>
+                      <p className="text-sm text-muted-foreground">Who can see when you were last active and whether you are online</p>
                     </div>
-                    <Switch defaultChecked />
+                    <Select
+                      value={lastSeenVisibility}
+                      onValueChange={(value) => handleLastSeenVisibilityChange(value as LastSeenVisibility)}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LAST_SEEN_VISIBILITY_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <Separator />
+
+                  <div className="space-y-2">
+                    <div>
+                      <h4 className="font-medium">Blocked Users</h4>
+                      <p className="text-sm text-muted-foreground">
+                        Blocked users can't message you or see when you're online
+                      </p>
+                    </div>
+                    {blockedUsers.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">You haven't blocked anyone</p>
+                    ) : (
+                      blockedUsers.map((blocked) => {
+                        const name = blocked.profile?.display_name || blocked.profile?.username || 'Unknown user';
+                        return (
+                          <div key={blocked.blocked_id} className="flex items-center space-x-3">
+                            <Avatar className="h-8 w-8">
+                              <AvatarImage src={blocked.profile?.avatar_url} />
+                              <AvatarFallback className="text-xs">{getInitials(name)}</AvatarFallback>
+                            </Avatar>
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-medium truncate">{name}</p>
+                              {blocked.profile && (
+                                <p className="text-xs text-muted-foreground truncate">@{blocked.profile.username}</p>
+                              )}
+                            </div>
+                            <Button variant="outline" size="sm" onClick={() => handleUnblock(blocked.blocked_id)}>
+                              Unblock
+                            </Button>
+                          </div>
+                        );
+                      })
+                    )}
                   </div>
 
                   <Separator />
@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { BellOff, Smile } from "lucide-react";
+import {
+  DND_DURATIONS,
+  MAX_STATUS_TEXT_LENGTH,
+  STATUS_DURATIONS,
+  STATUS_PRESETS,
+  getActiveStatus,
+  isDndActive,
+  setCustomStatus,
+  setDoNotDisturb,
+  type StatusFields,
+} from "@/lib/custom-status";
+
+interface StatusDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUserId: string;
+  status: StatusFields | null;
+  onSaved: (status: StatusFields) => void;
+}
+
+export function StatusDialog({ open, onOpenChange, currentUserId, status, onSaved }: StatusDialogProps) {
+  const [emoji, setEmoji] = useState("");
+  const [text, setText] = useState("");
+  const [duration, setDuration] = useState("0");
+  const [dnd, setDnd] = useState(false);
+  const [dndDuration, setDndDuration] = useState("1");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const dndUntil = isDndActive(status) && status?.dnd_until ? new Date(status.dnd_until) : null;
+
+  // Start from whatever is set when the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const active = getActiveStatus(status);
+    setEmoji(active?.emoji ?? "");
+    setText(active?.text ?? "");
+    setDuration("0");
+    setDnd(isDndActive(status));
+    setDndDuration("1");
+  }, [open]);
+
+  const save = async (cleared: boolean) => {
+    setSaving(true);
+    try {
+      const active = getActiveStatus(status);
+      const hasStatus = !cleared && !!(emoji.trim() || text.trim());
+      // Reopening to change only Do Not Disturb keeps the status's original expiry
+      const unchanged = active && hasStatus && active.emoji === (emoji.trim() || null) && active.text === text.trim() && duration === "0";
+      const expiresAt = unchanged ? active.expiresAt : STATUS_DURATIONS[Number(duration)].getExpiry();
+      // Clear turns Do Not Disturb off as well
+      const nextDndUntil = cleared || !dnd
+        ? null
+        : dndUntil ? dndUntil.toISOString() : DND_DURATIONS[Number(dndDuration)].getExpiry();
+
+      await setCustomStatus(currentUserId, hasStatus ? { emoji: emoji.trim() || null, text, expiresAt } : null);
+      await setDoNotDisturb(currentUserId, nextDndUntil);
+
+      onSaved({
+        status_emoji: hasStatus ? emoji.trim() || null : null,
+        status_text: hasStatus ? text.trim() || null : null,
+        status_expires_at: hasStatus ? expiresAt : null,
+        dnd_until: nextDndUntil,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error updating status:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update status",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Smile className="h-5 w-5" />
+            <span>Set a status</span>
+          </DialogTitle>
+          <DialogDescription>
+            Friends see it next to your name
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Input
+              aria-label="Emoji"
+              placeholder="🙂"
+              value={emoji}
+              onChange={(e) => setEmoji(e.target.value)}
+              maxLength={8}
+              className="w-14 text-center"
+            />
+            <Input
+              placeholder="What's your status?"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              maxLength={MAX_STATUS_TEXT_LENGTH}
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {STATUS_PRESETS.map((preset) => (
+              <Button
+                key={preset.text}
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setEmoji(preset.emoji);
+                  setText(preset.text);
+                }}
+              >
+                {preset.emoji} {preset.text}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Clear after</Label>
+            <Select value={duration} onValueChange={setDuration}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATUS_DURATIONS.map((option, i) => (
+                  <SelectItem key={option.label} value={String(i)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Separator />
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h4 className="font-medium flex items-center">
+                <BellOff className="h-4 w-4 mr-2" />
+                Do Not Disturb
+              </h4>
+              <p className="text-sm text-muted-foreground">
+                {dndUntil && dnd
+                  ? `Notifications paused until ${format(dndUntil, 'EEE HH:mm')}`
+                  : 'Pause message notifications'}
+              </p>
+            </div>
+            <Switch checked={dnd} onCheckedChange={setDnd} />
+          </div>
+
+          {dnd && !dndUntil && (
+            <Select value={dndDuration} onValueChange={setDndDuration}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DND_DURATIONS.map((option, i) => (
+                  <SelectItem key={option.label} value={String(i)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => save(true)} disabled={saving}>
+            Clear
+          </Button>
+          <Button onClick={() => save(false)} disabled={saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
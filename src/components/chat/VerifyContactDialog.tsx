@@ -0,0 +1,125 @@
+import { useState, useEffect } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ShieldCheck, ShieldAlert, Shield } from "lucide-react";
+import {
+  clearContactVerification,
+  getSafetyNumber,
+  markContactVerified,
+  type VerificationState,
+} from "@/lib/verification";
+
+interface VerifyContactDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUserId: string;
+  contactId: string;
+  contactName: string;
+  verificationState: VerificationState;
+  onVerificationChange: () => void;
+}
+
+export function VerifyContactDialog({
+  open,
+  onOpenChange,
+  currentUserId,
+  contactId,
+  contactName,
+  verificationState,
+  onVerificationChange,
+}: VerifyContactDialogProps) {
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setSafetyNumber(null);
+    getSafetyNumber(currentUserId, contactId)
+      .then(setSafetyNumber)
+      .catch((error) => {
+        console.error('Error computing safety number:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load security code",
+          variant: "destructive",
+        });
+      });
+  }, [open, currentUserId, contactId, toast]);
+
+  const handleToggleVerified = async () => {
+    setLoading(true);
+    try {
+      if (verificationState === 'verified') {
+        await clearContactVerification(currentUserId, contactId);
+      } else {
+        await markContactVerified(currentUserId, contactId);
+        toast({
+          title: "Contact verified ✅",
+          description: `You've verified your security code with ${contactName}`,
+        });
+      }
+      onVerificationChange();
+    } catch (error) {
+      console.error('Error updating verification:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update verification",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Shield className="h-5 w-5" />
+            <span>Verify security code</span>
+          </DialogTitle>
+          <DialogDescription>
+            Compare these numbers with {contactName} in person or over a trusted channel, or scan each other's QR code.
+          </DialogDescription>
+        </DialogHeader>
+
+        {verificationState === 'key-changed' && (
+          <div className="flex items-start space-x-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm">
+            <ShieldAlert className="h-4 w-4 text-destructive mt-0.5" />
+            <span>{contactName}'s security code changed since you verified it. Verify again before trusting this conversation.</span>
+          </div>
+        )}
+
+        {safetyNumber ? (
+          <div className="space-y-4">
+            <div className="flex justify-center rounded-md bg-white p-4">
+              <QRCodeSVG value={safetyNumber} size={176} />
+            </div>
+            <div className="grid grid-cols-4 gap-2 text-center font-mono text-lg tracking-wider">
+              {safetyNumber.split(' ').map((group, index) => (
+                <span key={index}>{group}</span>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="py-8 text-center text-muted-foreground">Loading...</div>
+        )}
+
+        <Button
+          onClick={handleToggleVerified}
+          disabled={loading || !safetyNumber}
+          variant={verificationState === 'verified' ? "outline" : "default"}
+          className="w-full"
+        >
+          <ShieldCheck className="h-4 w-4 mr-2" />
+          {verificationState === 'verified' ? "Clear verification" : "Mark as verified"}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
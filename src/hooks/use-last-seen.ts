@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { fetchLastSeen } from "@/lib/last-seen"
+import { usePresence } from "@/hooks/use-presence"
+
+// Relative labels like "5 minutes ago" are recomputed this often
+const REFRESH_INTERVAL_MS = 30 * 1000
+
+// When the user was last online, or null if they hide it from this user. The
+// presence channel notices a drop before the write lands, but its time is only
+// used once the server has shown it may be seen.
+export function useLastSeen(userId: string | undefined): string | null {
+  const [lastSeen, setLastSeen] = useState<string | null>(null)
+  const [, setTick] = useState(0)
+  const presence = usePresence(userId)
+  const offline = presence.status === "offline"
+
+  // One subscription per user, so it's already listening when they disconnect
+  useEffect(() => {
+    setLastSeen(null)
+    if (!userId) return
+    let cancelled = false
+
+    // Only delivered while the row is visible to this user
+    const subscription = supabase
+      .channel(`last-seen-${userId}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'user_last_seen', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const row = payload.new as { last_seen?: string }
+          if (row.last_seen && !cancelled) setLastSeen(row.last_seen)
+        }
+      )
+      .subscribe()
+
+    return () => {
+      cancelled = true
+      subscription.unsubscribe()
+    }
+  }, [userId])
+
+  // Refetched when they come or go, in case the write landed before the
+  // subscription or while it was reconnecting
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+
+    fetchLastSeen(userId)
+      .then((timestamp) => {
+        if (!cancelled && timestamp) {
+          setLastSeen(current => (current && new Date(current) > new Date(timestamp) ? current : timestamp))
+        }
+      })
+      .catch((error) => console.error('Error fetching last seen:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, offline])
+
+  useEffect(() => {
+    if (!offline || !lastSeen) return
+    const interval = setInterval(() => setTick(tick => tick + 1), REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [offline, lastSeen])
+
+  if (!lastSeen) return null
+  const observed = presence.lastSeenAt
+  return observed && new Date(observed) > new Date(lastSeen) ? observed : lastSeen
+}
@@ -0,0 +1,12 @@
+import { useEffect, useSyncExternalStore } from "react"
+import { getPresence, subscribeToPresence, watchPresence, type UserPresence } from "@/lib/presence"
+
+// Live status of one user across all of their tabs and devices
+export function usePresence(userId: string | undefined): UserPresence {
+  useEffect(() => {
+    if (!userId) return
+    return watchPresence(userId)
+  }, [userId])
+
+  return useSyncExternalStore(subscribeToPresence, () => getPresence(userId))
+}
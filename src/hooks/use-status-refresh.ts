@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react"
+import { getNextStatusChange, type StatusFields } from "@/lib/custom-status"
+
+// setTimeout overflows past about 24.8 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1
+
+// Re-renders when the next custom status or Do Not Disturb among these profiles
+// runs out, so expired ones disappear without waiting for another update
+export function useStatusRefresh(profiles: (StatusFields | null | undefined)[]) {
+  const [, setTick] = useState(0)
+  const next = getNextStatusChange(profiles)
+
+  useEffect(() => {
+    if (next === null) return
+    const timeout = setTimeout(() => setTick(tick => tick + 1), Math.min(next - Date.now(), MAX_TIMEOUT_MS))
+    return () => clearTimeout(timeout)
+  }, [next])
+}
@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from "react"
+
+export interface VoiceRecording {
+  blob: Blob
+  duration: number
+}
+
+// Records from the microphone until stopped or maxSeconds is reached. The
+// recording that hit the limit is handed to onLimitReached.
+export function useVoiceRecorder(maxSeconds: number, onLimitReached?: (recording: VoiceRecording) => void) {
+  const [recording, setRecording] = useState(false)
+  const [elapsed, setElapsed] = useState(0)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const chunksRef = useRef<Blob[]>([])
+  const startedAtRef = useRef(0)
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const stopRef = useRef<() => Promise<VoiceRecording | null>>()
+
+  const cleanup = () => {
+    if (timerRef.current) clearInterval(timerRef.current)
+    timerRef.current = null
+    recorderRef.current?.stream.getTracks().forEach(track => track.stop())
+    recorderRef.current = null
+    setRecording(false)
+    setElapsed(0)
+  }
+
+  const stop = () => {
+    const recorder = recorderRef.current
+    if (!recorder) return Promise.resolve(null)
+
+    return new Promise<VoiceRecording | null>((resolve) => {
+      recorder.onstop = () => {
+        const duration = Math.round((Date.now() - startedAtRef.current) / 1000)
+        const blob = new Blob(chunksRef.current, { type: recorder.mimeType || "audio/webm" })
+        cleanup()
+        resolve(blob.size > 0 ? { blob, duration } : null)
+      }
+      recorder.stop()
+    })
+  }
+  stopRef.current = stop
+
+  const start = async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+    const recorder = new MediaRecorder(stream)
+    chunksRef.current = []
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunksRef.current.push(event.data)
+    }
+    recorder.start()
+    recorderRef.current = recorder
+    startedAtRef.current = Date.now()
+    setRecording(true)
+
+    timerRef.current = setInterval(() => {
+      const seconds = Math.floor((Date.now() - startedAtRef.current) / 1000)
+      setElapsed(seconds)
+      if (seconds >= maxSeconds && timerRef.current) {
+        clearInterval(timerRef.current)
+        timerRef.current = null
+        stopRef.current?.().then((result) => {
+          if (result) onLimitReached?.(result)
+        })
+      }
+    }, 250)
+  }
+
+  const cancel = () => {
+    if (recorderRef.current) recorderRef.current.onstop = null
+    recorderRef.current?.stop()
+    cleanup()
+  }
+
+  // Release the microphone if the component goes away mid-recording
+  useEffect(() => () => {
+    if (timerRef.current) clearInterval(timerRef.current)
+    recorderRef.current?.stream.getTracks().forEach(track => track.stop())
+  }, [])
+
+  return { recording, elapsed, start, stop, cancel }
+}
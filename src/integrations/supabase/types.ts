@@ -14,32 +14,268 @@ export type Database = {
   }
   public: {
     Tables: {
+      contact_verifications: {
+        Row: {
+          contact_id: string
+          id: string
+          user_id: string
+          verified_at: string | null
+          verified_key_hash: string
+        }
+        Insert: {
+          contact_id: string
+          id?: string
+          user_id: string
+          verified_at?: string | null
+          verified_key_hash: string
+        }
+        Update: {
+          contact_id?: string
+          id?: string
+          user_id?: string
+          verified_at?: string | null
+          verified_key_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_verifications_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "contact_verifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      conversation_keys: {
+        Row: {
+          conversation_id: string
+          created_at: string | null
+          key_epoch: number
+          member_id: string
+          wrapped_by: string
+          wrapped_key: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string | null
+          key_epoch: number
+          member_id: string
+          wrapped_by: string
+          wrapped_key: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string | null
+          key_epoch?: number
+          member_id?: string
+          wrapped_by?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_keys_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_keys_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "conversation_keys_wrapped_by_fkey"
+            columns: ["wrapped_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      conversation_members: {
+        Row: {
+          conversation_id: string
+          id: string
+          joined_at: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          id?: string
+          joined_at?: string | null
+          role?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          id?: string
+          joined_at?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_members_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      conversation_mutes: {
+        Row: {
+          created_at: string | null
+          id: string
+          target_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          target_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          target_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_mutes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      conversation_reads: {
+        Row: {
+          last_read_at: string
+          target_id: string
+          user_id: string
+        }
+        Insert: {
+          last_read_at?: string
+          target_id: string
+          user_id: string
+        }
+        Update: {
+          last_read_at?: string
+          target_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_reads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string | null
+          created_by: string
+          id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       direct_messages: {
         Row: {
           content: string
+          conversation_id: string | null
           created_at: string | null
+          deleted_at: string | null
+          edited_at: string | null
           id: string
-          receiver_id: string
+          key_epoch: number
+          receiver_id: string | null
+          reply_to_id: string | null
           sender_id: string
           updated_at: string | null
         }
         Insert: {
           content: string
+          conversation_id?: string | null
           created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
-          receiver_id: string
+          key_epoch?: number
+          receiver_id?: string | null
+          reply_to_id?: string | null
           sender_id: string
           updated_at?: string | null
         }
         Update: {
           content?: string
+          conversation_id?: string | null
           created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
-          receiver_id?: string
+          key_epoch?: number
+          receiver_id?: string | null
+          reply_to_id?: string | null
           sender_id?: string
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "direct_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "direct_messages_receiver_id_fkey"
             columns: ["receiver_id"]
@@ -47,6 +283,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
+          {
+            foreignKeyName: "direct_messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "direct_messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "direct_messages_sender_id_fkey"
             columns: ["sender_id"]
@@ -98,15 +341,198 @@ export type Database = {
           },
         ]
       }
+      hidden_messages: {
+        Row: {
+          created_at: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hidden_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "direct_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hidden_messages_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      key_backups: {
+        Row: {
+          created_at: string | null
+          iterations: number
+          iv: string
+          salt: string
+          updated_at: string | null
+          user_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string | null
+          iterations: number
+          iv: string
+          salt: string
+          updated_at?: string | null
+          user_id: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string | null
+          iterations?: number
+          iv?: string
+          salt?: string
+          updated_at?: string | null
+          user_id?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "key_backups_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      message_edits: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          key_epoch: number
+          message_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          key_epoch: number
+          message_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          key_epoch?: number
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_edits_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "direct_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reactions: {
+        Row: {
+          created_at: string
+          emoji: string
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
+          id?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "direct_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      message_receipts: {
+        Row: {
+          delivered_at: string
+          message_id: string
+          read_at: string | null
+          user_id: string
+        }
+        Insert: {
+          delivered_at?: string
+          message_id: string
+          read_at?: string | null
+          user_id: string
+        }
+        Update: {
+          delivered_at?: string
+          message_id?: string
+          read_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_receipts_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "direct_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_receipts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           bio: string | null
           created_at: string | null
           display_name: string | null
+          dnd_until: string | null
           id: string
-          last_seen: string | null
+          last_seen_visibility: string
+          read_receipts: boolean
           status: string | null
+          status_emoji: string | null
+          status_expires_at: string | null
+          status_text: string | null
           updated_at: string | null
           user_id: string
           username: string
@@ -116,9 +542,14 @@ export type Database = {
           bio?: string | null
           created_at?: string | null
           display_name?: string | null
+          dnd_until?: string | null
           id?: string
-          last_seen?: string | null
+          last_seen_visibility?: string
+          read_receipts?: boolean
           status?: string | null
+          status_emoji?: string | null
+          status_expires_at?: string | null
+          status_text?: string | null
           updated_at?: string | null
           user_id: string
           username: string
@@ -128,45 +559,180 @@ export type Database = {
           bio?: string | null
           created_at?: string | null
           display_name?: string | null
+          dnd_until?: string | null
           id?: string
-          last_seen?: string | null
+          last_seen_visibility?: string
+          read_receipts?: boolean
           status?: string | null
+          status_emoji?: string | null
+          status_expires_at?: string | null
+          status_text?: string | null
           updated_at?: string | null
           user_id?: string
           username?: string
         }
         Relationships: []
       }
-      typing_status: {
+      user_blocks: {
         Row: {
-          conversation_with: string
+          blocked_id: string
+          blocker_id: string
+          created_at: string | null
           id: string
-          is_typing: boolean | null
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string | null
+          id?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string | null
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_blocks_blocked_id_fkey"
+            columns: ["blocked_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "user_blocks_blocker_id_fkey"
+            columns: ["blocker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      user_keys: {
+        Row: {
+          created_at: string | null
+          public_key: string
           updated_at: string | null
           user_id: string
         }
         Insert: {
-          conversation_with: string
-          id?: string
-          is_typing?: boolean | null
+          created_at?: string | null
+          public_key: string
           updated_at?: string | null
           user_id: string
         }
         Update: {
-          conversation_with?: string
-          id?: string
-          is_typing?: boolean | null
+          created_at?: string | null
+          public_key?: string
           updated_at?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_keys_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      user_last_seen: {
+        Row: {
+          last_seen: string
+          user_id: string
+        }
+        Insert: {
+          last_seen?: string
+          user_id: string
+        }
+        Update: {
+          last_seen?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_last_seen_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      are_friends: {
+        Args: { _user_a: string; _user_b: string }
+        Returns: boolean
+      }
+      can_read_attachment: {
+        Args: { _name: string; _user_id: string }
+        Returns: boolean
+      }
+      can_see_last_seen: {
+        Args: { _owner_id: string; _viewer_id: string }
+        Returns: boolean
+      }
+      can_see_typing: {
+        Args: { _topic: string; _viewer_id: string }
+        Returns: boolean
+      }
+      conversation_has_members: {
+        Args: { _conversation_id: string }
+        Returns: boolean
+      }
+      conversation_role: {
+        Args: { _conversation_id: string; _user_id: string }
+        Returns: string
+      }
+      conversation_summaries: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          content: string
+          conversation_id: string | null
+          created_at: string
+          deleted_at: string | null
+          key_epoch: number
+          message_id: string
+          receiver_id: string | null
+          sender_id: string
+          target_id: string
+          unread_count: number
+        }[]
+      }
+      has_blocked: {
+        Args: { _blocked_id: string; _blocker_id: string }
+        Returns: boolean
+      }
+      is_migration_envelope: {
+        Args: { _content: string }
+        Returns: boolean
+      }
+      mark_messages_delivered: {
+        Args: { _message_ids: string[] }
+        Returns: undefined
+      }
+      mark_messages_read: {
+        Args: { _message_ids: string[] }
+        Returns: undefined
+      }
+      presence_topic_owner: {
+        Args: { _topic: string }
+        Returns: string
+      }
+      start_group_key_epoch: {
+        Args: {
+          _after_epoch?: number
+          _conversation_id: string
+          _wrapped_keys: Json
+        }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,89 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const ATTACHMENT_BUCKET = 'attachments';
+
+export type UploadProgressHandler = (fraction: number) => void;
+
+// Blobs handed to storage are already encrypted; adapters only move bytes
+export interface AttachmentStorage {
+  upload: (path: string, data: Blob, onProgress?: UploadProgressHandler) => Promise<void>;
+  download: (path: string) => Promise<Blob>;
+  remove: (paths: string[]) => Promise<void>;
+}
+
+// Signed upload URLs let us PUT with XMLHttpRequest, the only browser API that
+// reports upload progress
+const supabaseStorage: AttachmentStorage = {
+  upload: async (path, data, onProgress) => {
+    const { data: signed, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUploadUrl(path);
+
+    if (error) throw error;
+
+    await new Promise<void>((resolve, reject) => {
+      const request = new XMLHttpRequest();
+      request.open('PUT', signed.signedUrl);
+      request.setRequestHeader('content-type', 'application/octet-stream');
+      request.upload.onprogress = (event) => {
+        if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+      };
+      request.onload = () => {
+        if (request.status >= 200 && request.status < 300) {
+          resolve();
+        } else {
+          reject(new Error(`Upload failed with status ${request.status}`));
+        }
+      };
+      request.onerror = () => reject(new Error('Upload failed'));
+      request.send(data);
+    });
+  },
+
+  download: async (path) => {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .download(path);
+
+    if (error) throw error;
+    return data;
+  },
+
+  remove: async (paths) => {
+    const { error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .remove(paths);
+
+    if (error) throw error;
+  },
+};
+
+// In-memory stand-in for local development and tests, enabled with
+// VITE_ATTACHMENT_STORAGE=local. Blobs only live as long as the page.
+export const createLocalAttachmentStorage = (): AttachmentStorage => {
+  const blobs = new Map<string, Blob>();
+
+  return {
+    upload: async (path, data, onProgress) => {
+      // Report progress in steps so the UI behaves as it would for a real upload
+      for (let step = 1; step <= 4; step++) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        onProgress?.(step / 4);
+      }
+      blobs.set(path, data);
+    },
+
+    download: async (path) => {
+      const blob = blobs.get(path);
+      if (!blob) throw new Error(`No attachment stored at ${path}`);
+      return blob;
+    },
+
+    remove: async (paths) => {
+      paths.forEach(path => blobs.delete(path));
+    },
+  };
+};
+
+export const attachmentStorage: AttachmentStorage =
+  import.meta.env.VITE_ATTACHMENT_STORAGE === 'local' ? createLocalAttachmentStorage() : supabaseStorage;
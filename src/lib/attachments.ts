@@ -0,0 +1,192 @@
+import { fromBase64, toBase64 } from './encryption';
+import type { AttachmentKind, AttachmentRef } from './envelope';
+import { attachmentStorage, type UploadProgressHandler } from './attachment-storage';
+import type { ChatTarget } from './messages';
+
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+export const MAX_VOICE_NOTE_SECONDS = 5 * 60;
+
+const THUMBNAIL_SIZE = 320;
+const ATTACHMENT_KINDS: AttachmentKind[] = ['file', 'image', 'voice'];
+
+// The mime type comes from the sender. Only media the browser can show without
+// running anything is decrypted under its own type; the rest (HTML, SVG, PDF
+// and so on) could script our origin if the blob were ever opened, so it is
+// only ever handed out as an opaque download.
+const INLINE_MIME_TYPES = new Set([
+  'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif', 'image/bmp',
+  'audio/webm', 'audio/ogg', 'audio/mpeg', 'audio/mp4', 'audio/aac', 'audio/wav',
+  'video/webm', 'video/ogg', 'video/mp4',
+]);
+
+// Picked in the composer but not uploaded yet
+export interface PendingAttachment {
+  id: string;
+  kind: AttachmentKind;
+  file: Blob;
+  name: string;
+  mime: string;
+  duration?: number;
+}
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+const encoder = new TextEncoder();
+const objectUrls = new Map<string, Promise<string>>();
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const createPendingAttachment = (
+  file: Blob,
+  name: string,
+  kind?: AttachmentKind,
+  duration?: number
+): PendingAttachment => {
+  if (file.size === 0) throw new AttachmentError(`${name} is empty`);
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError(`${name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`);
+  }
+
+  const mime = file.type || 'application/octet-stream';
+  return {
+    id: crypto.randomUUID(),
+    kind: kind ?? (mime.startsWith('image/') ? 'image' : 'file'),
+    file,
+    name,
+    mime,
+    duration,
+  };
+};
+
+// Small enough to travel inside the encrypted message so bubbles render
+// without downloading the full image
+export const createThumbnail = async (file: Blob) => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return { thumbnail: canvas.toDataURL('image/jpeg', 0.7), width: canvas.width, height: canvas.height };
+  } catch (error) {
+    console.error('Error creating thumbnail:', error);
+    return {};
+  }
+};
+
+// The second folder says who the file was sent to; storage policies only let
+// those users read it
+const getAttachmentFolder = ({ userId, peerId, conversationId }: ChatTarget) =>
+  `${userId}/${conversationId ? `group-${conversationId}` : `dm-${peerId}`}`;
+
+// Each file gets its own random key. The storage path is bound as additional
+// data so a blob can't be swapped for another one under the same reference.
+export const uploadAttachment = async (
+  target: ChatTarget,
+  attachment: PendingAttachment,
+  onProgress?: UploadProgressHandler
+): Promise<AttachmentRef> => {
+  const path = `${getAttachmentFolder(target)}/${crypto.randomUUID()}`;
+  const rawKey = crypto.getRandomValues(new Uint8Array(32));
+  const nonce = crypto.getRandomValues(new Uint8Array(12));
+  const key = await crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, false, ['encrypt']);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce, additionalData: encoder.encode(path) },
+    key,
+    await attachment.file.arrayBuffer()
+  );
+
+  await attachmentStorage.upload(path, new Blob([ciphertext]), onProgress);
+
+  return {
+    kind: attachment.kind,
+    path,
+    name: attachment.name,
+    mime: attachment.mime,
+    size: attachment.file.size,
+    key: toBase64(rawKey),
+    nonce: toBase64(nonce),
+    ...(attachment.kind === 'image' && await createThumbnail(attachment.file)),
+    ...(attachment.duration !== undefined && { duration: attachment.duration }),
+  };
+};
+
+// Parameters such as a voice note's codecs don't change what the type is
+const getDisplayMime = (mime: string) => {
+  const type = mime.split(';')[0].trim().toLowerCase();
+  return INLINE_MIME_TYPES.has(type) ? type : 'application/octet-stream';
+};
+
+// Decrypted blobs are kept as object URLs for the rest of the session
+export const getAttachmentUrl = (attachment: AttachmentRef): Promise<string> => {
+  let url = objectUrls.get(attachment.path);
+  if (!url) {
+    url = (async () => {
+      const encrypted = await attachmentStorage.download(attachment.path);
+      const key = await crypto.subtle.importKey('raw', fromBase64(attachment.key), { name: 'AES-GCM' }, false, ['decrypt']);
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(attachment.nonce), additionalData: encoder.encode(attachment.path) },
+        key,
+        await encrypted.arrayBuffer()
+      );
+      return URL.createObjectURL(new Blob([plaintext], { type: getDisplayMime(attachment.mime) }));
+    })();
+    objectUrls.set(attachment.path, url);
+    url.catch(() => objectUrls.delete(attachment.path));
+  }
+  return url;
+};
+
+// Received refs are rendered from untrusted data, so drop malformed ones and
+// any thumbnail that isn't an embedded image
+export const sanitizeAttachments = (attachments: AttachmentRef[] | undefined): AttachmentRef[] =>
+  (attachments ?? []).filter(attachment =>
+    ATTACHMENT_KINDS.includes(attachment?.kind) &&
+    typeof attachment.path === 'string' &&
+    typeof attachment.name === 'string' &&
+    typeof attachment.mime === 'string' &&
+    typeof attachment.size === 'number' &&
+    typeof attachment.key === 'string' &&
+    typeof attachment.nonce === 'string'
+  ).map(attachment => ({
+    ...attachment,
+    thumbnail: typeof attachment.thumbnail === 'string' && attachment.thumbnail.startsWith('data:image/')
+      ? attachment.thumbnail
+      : undefined,
+  }));
+
+// Always saved to disk through the download attribute, never opened in the app
+export const saveAttachment = async (attachment: AttachmentRef) => {
+  const link = document.createElement('a');
+  link.href = await getAttachmentUrl(attachment);
+  link.download = attachment.name || 'attachment';
+  link.rel = 'noopener';
+  link.click();
+};
+
+export const removeAttachments = async (attachments: AttachmentRef[]) => {
+  if (attachments.length === 0) return;
+  await attachmentStorage.remove(attachments.map(attachment => attachment.path));
+};
+
+export const describeAttachments = (attachments: AttachmentRef[]) => {
+  if (attachments.length > 1) return `📎 ${attachments.length} attachments`;
+  const [attachment] = attachments;
+  switch (attachment.kind) {
+    case 'image': return '📷 Photo';
+    case 'voice': return '🎤 Voice message';
+    default: return `📎 ${attachment.name}`;
+  }
+};
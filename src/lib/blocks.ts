@@ -0,0 +1,60 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface BlockedUser {
+  blocked_id: string;
+  created_at: string;
+  profile: {
+    username: string;
+    display_name: string;
+    avatar_url?: string;
+  } | null;
+}
+
+// Only the blocker can see their own blocks, so this can't tell whether the
+// other user has blocked us; failed sends surface that instead
+export const fetchBlockedUsers = async (userId: string): Promise<BlockedUser[]> => {
+  const { data, error } = await supabase
+    .from('user_blocks')
+    .select('blocked_id, created_at, profile:profiles!user_blocks_blocked_id_fkey(username, display_name, avatar_url)')
+    .eq('blocker_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as BlockedUser[];
+};
+
+export const isUserBlocked = async (userId: string, otherUserId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('user_blocks')
+    .select('id')
+    .eq('blocker_id', userId)
+    .eq('blocked_id', otherUserId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
+
+export const blockUser = async (userId: string, otherUserId: string) => {
+  const { error } = await supabase
+    .from('user_blocks')
+    .upsert(
+      { blocker_id: userId, blocked_id: otherUserId },
+      { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+};
+
+export const unblockUser = async (userId: string, otherUserId: string) => {
+  const { error } = await supabase
+    .from('user_blocks')
+    .delete()
+    .eq('blocker_id', userId)
+    .eq('blocked_id', otherUserId);
+
+  if (error) throw error;
+};
+
+// Postgres reports a failed row-level WITH CHECK as insufficient_privilege
+export const isBlockedInsertError = (error: { code?: string } | null) => error?.code === '42501';
@@ -0,0 +1,70 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { DecryptResult } from './encryption';
+import { decryptStoredMessage, type Message } from './messages';
+
+// One row per conversation; target_id is the other user for direct chats and
+// the conversation id for groups, matching mutes and read positions
+export interface ConversationSummary {
+  target_id: string;
+  message_id: string;
+  sender_id: string;
+  receiver_id: string | null;
+  conversation_id: string | null;
+  content: string;
+  key_epoch: number;
+  created_at: string;
+  deleted_at: string | null;
+  unread_count: number;
+}
+
+export const getSummaryTarget = (message: Message, userId: string) => {
+  if (message.conversation_id) return message.conversation_id;
+  return message.sender_id === userId ? message.receiver_id : message.sender_id;
+};
+
+export const fetchConversationSummaries = async (): Promise<Record<string, ConversationSummary>> => {
+  const { data, error } = await supabase.rpc('conversation_summaries');
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(summary => [summary.target_id, summary]));
+};
+
+// Folds a newly inserted message into the summaries without a refetch
+export const applyMessageToSummaries = (
+  summaries: Record<string, ConversationSummary>,
+  message: Message,
+  userId: string,
+  countAsUnread: boolean
+): Record<string, ConversationSummary> => {
+  const targetId = getSummaryTarget(message, userId);
+  const previous = summaries[targetId];
+  if (previous && previous.created_at > message.created_at) return summaries;
+
+  return {
+    ...summaries,
+    [targetId]: {
+      target_id: targetId,
+      message_id: message.id,
+      sender_id: message.sender_id,
+      receiver_id: message.receiver_id,
+      conversation_id: message.conversation_id,
+      content: message.content,
+      key_epoch: message.key_epoch,
+      created_at: message.created_at,
+      deleted_at: message.deleted_at,
+      unread_count: (previous?.unread_count ?? 0) + (countAsUnread && message.sender_id !== userId ? 1 : 0),
+    },
+  };
+};
+
+export const decryptSummary = (summary: ConversationSummary, userId: string): Promise<DecryptResult> => {
+  return decryptStoredMessage({ ...summary, id: summary.message_id }, userId);
+};
+
+// last_read_at is stamped by the server so it shares a clock with the messages
+export const markConversationRead = async (userId: string, targetId: string) => {
+  const { error } = await supabase
+    .from('conversation_reads')
+    .upsert({ user_id: userId, target_id: targetId });
+
+  if (error) throw error;
+};
@@ -0,0 +1,121 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const MAX_STATUS_TEXT_LENGTH = 100;
+
+// The profile columns a custom status is read from. Presence never writes
+// these, so going away or offline leaves the user's status alone.
+export interface StatusFields {
+  status_emoji?: string | null;
+  status_text?: string | null;
+  status_expires_at?: string | null;
+  dnd_until?: string | null;
+}
+
+export interface CustomStatus {
+  emoji: string | null;
+  text: string;
+  expiresAt: string | null;
+}
+
+export const STATUS_PRESETS: { emoji: string; text: string }[] = [
+  { emoji: '📅', text: 'In a meeting' },
+  { emoji: '📞', text: 'On call' },
+  { emoji: '🚗', text: 'Commuting' },
+  { emoji: '🤒', text: 'Out sick' },
+  { emoji: '🌴', text: 'On vacation' },
+];
+
+const minutesFromNow = (minutes: number) => () => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+const endOfToday = () => {
+  const end = new Date();
+  end.setHours(23, 59, 59, 999);
+  return end.toISOString();
+};
+
+const tomorrowMorning = () => {
+  const morning = new Date();
+  morning.setDate(morning.getDate() + 1);
+  morning.setHours(8, 0, 0, 0);
+  return morning.toISOString();
+};
+
+// Each option works out its expiry when picked; null keeps it until cleared
+export const STATUS_DURATIONS: { label: string; getExpiry: () => string | null }[] = [
+  { label: "Don't clear", getExpiry: () => null },
+  { label: '30 minutes', getExpiry: minutesFromNow(30) },
+  { label: '1 hour', getExpiry: minutesFromNow(60) },
+  { label: '4 hours', getExpiry: minutesFromNow(4 * 60) },
+  { label: 'Today', getExpiry: endOfToday },
+  { label: '1 week', getExpiry: minutesFromNow(7 * 24 * 60) },
+];
+
+export const DND_DURATIONS: { label: string; getExpiry: () => string }[] = [
+  { label: '30 minutes', getExpiry: minutesFromNow(30) },
+  { label: '1 hour', getExpiry: minutesFromNow(60) },
+  { label: '4 hours', getExpiry: minutesFromNow(4 * 60) },
+  { label: 'Until tomorrow', getExpiry: tomorrowMorning },
+];
+
+const isFuture = (timestamp: string | null | undefined, now: number) =>
+  !!timestamp && new Date(timestamp).getTime() > now;
+
+// Expired statuses are left in the row and ignored here, so nothing has to
+// clear them on time
+export const getActiveStatus = (profile: StatusFields | null | undefined, now = Date.now()): CustomStatus | null => {
+  if (!profile || (!profile.status_text && !profile.status_emoji)) return null;
+  if (profile.status_expires_at && !isFuture(profile.status_expires_at, now)) return null;
+  return {
+    emoji: profile.status_emoji ?? null,
+    text: profile.status_text ?? '',
+    expiresAt: profile.status_expires_at ?? null,
+  };
+};
+
+export const formatStatus = (status: CustomStatus) =>
+  [status.emoji, status.text].filter(Boolean).join(' ');
+
+export const isDndActive = (profile: StatusFields | null | undefined, now = Date.now()) =>
+  isFuture(profile?.dnd_until, now);
+
+// The next moment a status or Do Not Disturb on any of these profiles runs out
+export const getNextStatusChange = (profiles: (StatusFields | null | undefined)[], now = Date.now()) => {
+  const times = profiles
+    .flatMap(profile => [profile?.status_expires_at, profile?.dnd_until])
+    .map(timestamp => (timestamp ? new Date(timestamp).getTime() : NaN))
+    .filter(time => time > now);
+  return times.length > 0 ? Math.min(...times) : null;
+};
+
+export const fetchOwnStatus = async (userId: string): Promise<StatusFields> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('status_emoji, status_text, status_expires_at, dnd_until')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const setCustomStatus = async (userId: string, status: CustomStatus | null) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({
+      status_emoji: status?.emoji || null,
+      status_text: status?.text.trim().slice(0, MAX_STATUS_TEXT_LENGTH) || null,
+      status_expires_at: status?.expiresAt ?? null,
+    })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+export const setDoNotDisturb = async (userId: string, until: string | null) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ dnd_until: until })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,66 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { getKeyFingerprint, openMessage, sealMessage, type EpochKey, type KeyResolver } from './encryption';
+import type { MessageEnvelope } from './envelope';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+let epochKey: EpochKey;
+const resolveKey: KeyResolver = async () => epochKey;
+
+const tamper = (content: string, change: (envelope: MessageEnvelope) => MessageEnvelope) =>
+  JSON.stringify(change(JSON.parse(content) as MessageEnvelope));
+
+beforeAll(async () => {
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  const material = crypto.getRandomValues(new Uint8Array(32));
+  epochKey = {
+    key: await crypto.subtle.importKey('raw', material, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']),
+    fingerprint: await getKeyFingerprint(material),
+  };
+});
+
+describe('message envelopes', () => {
+  it('round-trips plain and structured bodies', async () => {
+    const plain = await sealMessage('hello', resolveKey, 3);
+    expect(await openMessage(plain.content, resolveKey)).toEqual({ status: 'ok', text: 'hello' });
+
+    const preview = { url: 'https://example.com', title: 'Example' };
+    const structured = await sealMessage({ text: 'look', previews: [preview] }, resolveKey, 3);
+    expect(await openMessage(structured.content, resolveKey)).toEqual({ status: 'ok', text: 'look', previews: [preview] });
+  });
+
+  it('rejects a header changed after sealing', async () => {
+    const { content } = await sealMessage('hello', resolveKey, 3);
+
+    expect(await openMessage(tamper(content, envelope => ({ ...envelope, kid: 4 })), resolveKey))
+      .toEqual({ status: 'tampered' });
+    expect(await openMessage(tamper(content, envelope => ({ ...envelope, mig: 1 })), resolveKey))
+      .toEqual({ status: 'tampered' });
+  });
+
+  it('rejects a migration marker that was stripped', async () => {
+    const { content } = await sealMessage('hello', resolveKey, 0, { migration: true });
+    expect(JSON.parse(content)).toMatchObject({ mig: 1 });
+
+    expect(await openMessage(tamper(content, ({ mig: _mig, ...envelope }) => envelope), resolveKey))
+      .toEqual({ status: 'tampered' });
+  });
+
+  it('rejects a modified ciphertext', async () => {
+    const { content } = await sealMessage('hello', resolveKey, 3);
+    const flipped = tamper(content, envelope => {
+      const bytes = Uint8Array.from(atob(envelope.ct), char => char.charCodeAt(0));
+      bytes[0] ^= 1;
+      return { ...envelope, ct: btoa(String.fromCharCode(...bytes)) };
+    });
+
+    expect(await openMessage(flipped, resolveKey)).toEqual({ status: 'tampered' });
+  });
+
+  it('reports a different key under the same epoch as unknown', async () => {
+    const { content } = await sealMessage('hello', resolveKey, 3);
+    const otherKey: KeyResolver = async () => ({ ...epochKey, fingerprint: 'AAAAAAAAAAA=' });
+
+    expect(await openMessage(content, otherKey)).toEqual({ status: 'unknown-key' });
+  });
+});
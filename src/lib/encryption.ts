@@ -1,30 +1,515 @@
 import CryptoJS from 'crypto-js';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ENVELOPE_ALGORITHM,
+  ENVELOPE_VERSION,
+  STRUCTURED_ENVELOPE_VERSION,
+  getEnvelopeAad,
+  isStructuredBody,
+  parseBody,
+  parseContent,
+  serializeBody,
+  serializeEnvelope,
+  type EnvelopeHeader,
+  type MessageBody,
+} from '@/lib/envelope';
 
-const ENCRYPTION_KEY = 'chatvibe-e2e-encryption-key-2024'; // In production, generate per user
+// Messages written before per-user keys existed were encrypted with this shared
+// passphrase. It is only kept so that history stays readable.
+const LEGACY_ENCRYPTION_KEY = 'chatvibe-e2e-encryption-key-2024';
 
-export const encryptMessage = (message: string): string => {
+const KEY_PAIR_ALGORITHM = { name: 'ECDH', namedCurve: 'P-256' } as const;
+const PRIVATE_KEY_STORAGE_PREFIX = 'chatvibe-keypair-';
+const CONVERSATION_KEY_INFO = 'chatvibe-dm-v1';
+const RATCHET_INFO = 'chatvibe-dm-ratchet-v1';
+const MESSAGE_KEY_INFO = 'chatvibe-dm-message-v1';
+const KEY_WRAP_INFO = 'chatvibe-key-wrap-v1';
+const KEY_FINGERPRINT_INFO = 'chatvibe-key-id-v1';
+
+export interface ConversationContext {
+  userId: string;
+  peerId: string;
+}
+
+interface ChainHead {
+  epoch: number;
+  chainKey: ArrayBuffer;
+}
+
+interface StoredKeyPair {
+  publicKey: JsonWebKey;
+  privateKey: JsonWebKey;
+}
+
+// A message key and the fingerprint envelopes carry to say which key they need
+export interface EpochKey {
+  key: CryptoKey;
+  fingerprint: string;
+}
+
+export interface EncryptedMessage {
+  content: string;
+  keyEpoch: number;
+}
+
+// "legacy" means the text was readable but only under the old shared passphrase
+export type DecryptResult =
+  | ({ status: 'ok' } & MessageBody)
+  | { status: 'legacy'; text: string }
+  | { status: 'unknown-key' }
+  | { status: 'tampered' }
+  | { status: 'unsupported' };
+
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const publicKeyCache = new Map<string, JsonWebKey>();
+const chainHeads = new Map<string, ChainHead>();
+const pendingChainSteps = new Map<string, Promise<unknown>>();
+// Bumped when the key pairs change, so a step already running can't store a head
+// derived from the old ones
+let chainGeneration = 0;
+const conversationKeyCache = new Map<string, Promise<EpochKey>>();
+const wrappingKeyCache = new Map<string, Promise<CryptoKey>>();
+const pendingKeyGeneration = new Map<string, Promise<JsonWebKey>>();
+
+export const toBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const wipe = (buffer: ArrayBuffer) => new Uint8Array(buffer).fill(0);
+
+export const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const getConversationId = ({ userId, peerId }: ConversationContext): string => {
+  return [userId, peerId].sort().join(':');
+};
+
+export const loadLocalKeyPair = (userId: string): StoredKeyPair | null => {
+  const stored = localStorage.getItem(PRIVATE_KEY_STORAGE_PREFIX + userId);
+  if (!stored) return null;
   try {
-    const encrypted = CryptoJS.AES.encrypt(message, ENCRYPTION_KEY).toString();
-    return encrypted;
+    return JSON.parse(stored) as StoredKeyPair;
+  } catch (error) {
+    console.error('Stored key pair is corrupt:', error);
+    return null;
+  }
+};
+
+export const saveLocalKeyPair = (userId: string, keyPair: StoredKeyPair) => {
+  localStorage.setItem(PRIVATE_KEY_STORAGE_PREFIX + userId, JSON.stringify(keyPair));
+  clearConversationKeys();
+};
+
+const clearConversationKeys = () => {
+  chainHeads.forEach(({ chainKey }) => wipe(chainKey));
+  chainHeads.clear();
+  chainGeneration++;
+  conversationKeyCache.clear();
+  wrappingKeyCache.clear();
+};
+
+// Creates the user's long-term key pair and keeps the private half on this device.
+// Concurrent callers (sign-up and the first ChatLayout mount) share one generation.
+export const generateUserKeys = (userId: string): Promise<JsonWebKey> => {
+  let pending = pendingKeyGeneration.get(userId);
+  if (!pending) {
+    pending = (async () => {
+      const keyPair = await crypto.subtle.generateKey(KEY_PAIR_ALGORITHM, true, ['deriveBits']);
+      const publicKey = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+      const privateKey = await crypto.subtle.exportKey('jwk', keyPair.privateKey);
+
+      saveLocalKeyPair(userId, { publicKey, privateKey });
+      return publicKey;
+    })().finally(() => pendingKeyGeneration.delete(userId));
+    pendingKeyGeneration.set(userId, pending);
+  }
+  return pending;
+};
+
+export const publishPublicKey = async (userId: string, publicKey: JsonWebKey) => {
+  const { error } = await supabase
+    .from('user_keys')
+    .upsert({
+      user_id: userId,
+      public_key: JSON.stringify(publicKey),
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+  publicKeyCache.set(userId, publicKey);
+};
+
+export const fetchPublicKey = async (userId: string, skipCache = false): Promise<JsonWebKey | null> => {
+  const cached = publicKeyCache.get(userId);
+  if (cached && !skipCache) return cached;
+
+  const { data, error } = await supabase
+    .from('user_keys')
+    .select('public_key')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const publicKey = JSON.parse(data.public_key) as JsonWebKey;
+  if (cached && JSON.stringify(cached) !== data.public_key) {
+    // The contact's key changed; any conversation key derived from the old one is stale
+    clearConversationKeys();
+  }
+  publicKeyCache.set(userId, publicKey);
+  return publicKey;
+};
+
+export class KeyMismatchError extends EncryptionError {
+  constructor() {
+    super('This device does not hold your published key; restore it from your backup');
+    this.name = 'KeyMismatchError';
+  }
+}
+
+const isSameKey = (a: JsonWebKey, b: JsonWebKey) => JSON.stringify(a) === JSON.stringify(b);
+
+// 'restore' when a key is published that this device doesn't hold. Going on
+// would mean replacing it, which cuts the user and every contact off from the
+// existing messages, so that is only done when the user chooses to start fresh.
+export const checkUserKeys = async (userId: string): Promise<'ready' | 'restore'> => {
+  const published = await fetchPublicKey(userId, true);
+  if (!published) return 'ready';
+  const local = loadLocalKeyPair(userId)?.publicKey;
+  return local && isSameKey(local, published) ? 'ready' : 'restore';
+};
+
+// Makes sure this device holds the user's private key and that the matching
+// public key is what other users see. A key is only published when none has
+// been yet; a different published key throws KeyMismatchError instead of being
+// overwritten, so two devices can't keep replacing each other's key.
+export const ensureUserKeys = async (userId: string) => {
+  const published = await fetchPublicKey(userId, true);
+  const local = loadLocalKeyPair(userId)?.publicKey;
+  if (published) {
+    if (!local || !isSameKey(local, published)) throw new KeyMismatchError();
+    return;
+  }
+
+  const publicKey = local ?? await generateUserKeys(userId);
+  const { error } = await supabase
+    .from('user_keys')
+    .insert({ user_id: userId, public_key: JSON.stringify(publicKey) });
+
+  // Another device published first
+  if (error?.code === '23505') throw new KeyMismatchError();
+  if (error) throw error;
+  publicKeyCache.set(userId, publicKey);
+};
+
+// Starting fresh: a new key pair that replaces the published one. Messages
+// encrypted to the old key can't be read with it.
+export const replaceUserKeys = async (userId: string) => {
+  const publicKey = await generateUserKeys(userId);
+  await publishPublicKey(userId, publicKey);
+};
+
+const hkdf = async (keyMaterial: ArrayBuffer, context: ConversationContext, info: string): Promise<ArrayBuffer> => {
+  const baseKey = await crypto.subtle.importKey('raw', keyMaterial, 'HKDF', false, ['deriveBits']);
+  return crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: encoder.encode(getConversationId(context)),
+      info: encoder.encode(info),
+    },
+    baseKey,
+    256
+  );
+};
+
+// 64 bits of HKDF output, enough to tell keys apart without revealing anything
+// about them
+export const getKeyFingerprint = async (keyMaterial: ArrayBuffer | Uint8Array): Promise<string> => {
+  const baseKey = await crypto.subtle.importKey('raw', keyMaterial, 'HKDF', false, ['deriveBits']);
+  const fingerprint = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: encoder.encode(KEY_FINGERPRINT_INFO) },
+    baseKey,
+    64
+  );
+  return toBase64(fingerprint);
+};
+
+// Keys for data this device keeps about itself (search index, message cache).
+// They come from the private key, so they disappear with it and never leave the device.
+export const deriveDeviceSecret = async (userId: string, info: string): Promise<ArrayBuffer> => {
+  const keyPair = loadLocalKeyPair(userId);
+  if (!keyPair?.privateKey.d) throw new Error('No private key on this device');
+
+  const privateBytes = fromBase64(keyPair.privateKey.d.replace(/-/g, '+').replace(/_/g, '/'));
+  const baseKey = await crypto.subtle.importKey('raw', privateBytes, 'HKDF', false, ['deriveBits']);
+  return crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(userId), info: encoder.encode(info) },
+    baseKey,
+    256
+  );
+};
+
+const deriveRootChainKey = async (context: ConversationContext): Promise<ArrayBuffer> => {
+  const keyPair = loadLocalKeyPair(context.userId);
+  if (!keyPair) throw new Error('No private key on this device');
+
+  const peerPublicKey = await fetchPublicKey(context.peerId);
+  if (!peerPublicKey) throw new Error('Contact has not published a public key');
+
+  const privateKey = await crypto.subtle.importKey('jwk', keyPair.privateKey, KEY_PAIR_ALGORITHM, false, ['deriveBits']);
+  const publicKey = await crypto.subtle.importKey('jwk', peerPublicKey, KEY_PAIR_ALGORITHM, false, []);
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+
+  const rootKey = await hkdf(sharedSecret, context, CONVERSATION_KEY_INFO);
+  wipe(sharedSecret);
+  return rootKey;
+};
+
+// Each epoch has a chain key and a message key, both one-way HKDF steps from the
+// previous chain key. Only the message key encrypts anything, and only the newest
+// chain key is kept: every one passed on the way is wiped, so what sits in memory
+// can't be walked back to earlier epochs, and a leaked message key exposes only
+// its own epoch. Steps for one conversation run one at a time since they share
+// the head.
+const deriveMessageKey = (context: ConversationContext, epoch: number): Promise<EpochKey> => {
+  const chainId = `${context.userId}|${context.peerId}`;
+  const step = (pendingChainSteps.get(chainId) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      const generation = chainGeneration;
+      // Anything older than the head has to start over from the root
+      const head = chainHeads.get(chainId);
+      let current: ChainHead;
+      if (head && head.epoch <= epoch) {
+        chainHeads.delete(chainId);
+        current = head;
+      } else {
+        current = { epoch: 0, chainKey: await deriveRootChainKey(context) };
+      }
+
+      while (current.epoch < epoch) {
+        const next = await hkdf(current.chainKey, context, RATCHET_INFO);
+        wipe(current.chainKey);
+        current = { epoch: current.epoch + 1, chainKey: next };
+      }
+
+      const messageKey = await hkdf(current.chainKey, context, MESSAGE_KEY_INFO);
+      if (generation === chainGeneration && !chainHeads.has(chainId)) {
+        chainHeads.set(chainId, current);
+      } else {
+        wipe(current.chainKey);
+      }
+
+      const key = await crypto.subtle.importKey('raw', messageKey, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+      const fingerprint = await getKeyFingerprint(messageKey);
+      wipe(messageKey);
+      return { key, fingerprint };
+    });
+  pendingChainSteps.set(chainId, step);
+  step.finally(() => {
+    if (pendingChainSteps.get(chainId) === step) pendingChainSteps.delete(chainId);
+  }).catch(() => undefined);
+  return step;
+};
+
+// Once the head has moved past an epoch its message key is dropped as well, so
+// the cache only ever holds keys for the current chain state. Reading history
+// from an older epoch derives its key again from the root and forgets it after.
+const dropSupersededKeys = (chainId: string) => {
+  const head = chainHeads.get(chainId);
+  if (!head) return;
+  conversationKeyCache.forEach((_key, cacheKey) => {
+    const [id, epoch] = cacheKey.split('#');
+    if (id === chainId && Number(epoch) < head.epoch) conversationKeyCache.delete(cacheKey);
+  });
+};
+
+export const getConversationKey = (context: ConversationContext, epoch = 0): Promise<EpochKey> => {
+  const chainId = `${context.userId}|${context.peerId}`;
+  const cacheKey = `${chainId}#${epoch}`;
+  let key = conversationKeyCache.get(cacheKey);
+  if (!key) {
+    key = deriveMessageKey(context, epoch);
+    conversationKeyCache.set(cacheKey, key);
+    key.then(() => dropSupersededKeys(chainId), () => conversationKeyCache.delete(cacheKey));
+  }
+  return key;
+};
+
+// Used to hand group keys from one member to another; derived separately so it
+// never coincides with a direct-message key
+export const getKeyWrappingKey = (context: ConversationContext): Promise<CryptoKey> => {
+  const cacheKey = `${context.userId}|${context.peerId}`;
+  let key = wrappingKeyCache.get(cacheKey);
+  if (!key) {
+    key = (async () => {
+      const rootKey = await deriveRootChainKey(context);
+      const wrapKey = await hkdf(rootKey, context, KEY_WRAP_INFO);
+      wipe(rootKey);
+      const wrappingKey = await crypto.subtle.importKey('raw', wrapKey, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+      wipe(wrapKey);
+      return wrappingKey;
+    })();
+    wrappingKeyCache.set(cacheKey, key);
+    key.catch(() => wrappingKeyCache.delete(cacheKey));
+  }
+  return key;
+};
+
+export const decryptLegacyMessage = (encryptedMessage: string): string => {
+  return CryptoJS.AES.decrypt(encryptedMessage, LEGACY_ENCRYPTION_KEY).toString(CryptoJS.enc.Utf8);
+};
+
+// Resolves the AES key for a key epoch; throwing means the key isn't available
+export type KeyResolver = (keyEpoch: number) => Promise<EpochKey>;
+
+export const sealMessage = async (
+  message: string | MessageBody,
+  resolveKey: KeyResolver,
+  keyEpoch: number,
+  { migration = false }: { migration?: boolean } = {}
+): Promise<EncryptedMessage> => {
+  let epochKey: EpochKey;
+  try {
+    epochKey = await resolveKey(keyEpoch);
   } catch (error) {
     console.error('Encryption error:', error);
-    return message; // Fallback to unencrypted
+    throw new EncryptionError(error instanceof Error ? error.message : 'No key available for this conversation');
   }
+
+  const body = typeof message === 'string' ? { text: message } : message;
+  const structured = isStructuredBody(body);
+  const header: EnvelopeHeader = {
+    v: structured ? STRUCTURED_ENVELOPE_VERSION : ENVELOPE_VERSION,
+    alg: ENVELOPE_ALGORITHM,
+    kid: keyEpoch,
+    fp: epochKey.fingerprint,
+    ...(migration && { mig: 1 as const }),
+  };
+  const nonce = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce, additionalData: getEnvelopeAad(header) },
+    epochKey.key,
+    encoder.encode(structured ? serializeBody(body) : body.text)
+  );
+
+  return {
+    content: serializeEnvelope({ ...header, nonce: toBase64(nonce), ct: toBase64(ciphertext) }),
+    keyEpoch,
+  };
 };
 
-export const decryptMessage = (encryptedMessage: string): string => {
+const decryptWithEpochKey = async (
+  resolveKey: KeyResolver,
+  keyEpoch: number,
+  nonce: string,
+  ciphertext: string,
+  additionalData?: Uint8Array,
+  structured = false,
+  fingerprint?: string
+): Promise<DecryptResult> => {
+  let key: CryptoKey;
   try {
-    const decrypted = CryptoJS.AES.decrypt(encryptedMessage, ENCRYPTION_KEY).toString(CryptoJS.enc.Utf8);
-    return decrypted || encryptedMessage; // Fallback if decryption fails
+    const epochKey = await resolveKey(keyEpoch);
+    if (fingerprint !== undefined && fingerprint !== epochKey.fingerprint) {
+      throw new Error(`Key for epoch ${keyEpoch} does not match the message's fingerprint`);
+    }
+    key = epochKey.key;
+  } catch (error) {
+    console.error('Decryption key unavailable:', error);
+    return { status: 'unknown-key' };
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(nonce), ...(additionalData && { additionalData }) },
+      key,
+      fromBase64(ciphertext)
+    );
+    if (!structured) return { status: 'ok', text: decoder.decode(plaintext) };
+
+    const body = parseBody(decoder.decode(plaintext));
+    return body ? { status: 'ok', ...body } : { status: 'unsupported' };
   } catch (error) {
     console.error('Decryption error:', error);
-    return encryptedMessage; // Fallback to showing encrypted text
+    return { status: 'tampered' };
   }
 };
 
-export const generateUserKeys = () => {
-  // Generate unique keys per user session
-  const timestamp = Date.now().toString();
-  const randomBytes = CryptoJS.lib.WordArray.random(32).toString();
-  return CryptoJS.SHA256(timestamp + randomBytes).toString();
-};
\ No newline at end of file
+export const openMessage = async (
+  encryptedMessage: string,
+  resolveKey: KeyResolver,
+  keyEpoch = 0
+): Promise<DecryptResult> => {
+  const parsed = parseContent(encryptedMessage);
+
+  switch (parsed.format) {
+    case 'envelope': {
+      const { envelope } = parsed;
+      const structured = envelope.v === STRUCTURED_ENVELOPE_VERSION;
+      if ((envelope.v !== ENVELOPE_VERSION && !structured) || envelope.alg !== ENVELOPE_ALGORITHM) {
+        return { status: 'unsupported' };
+      }
+      return decryptWithEpochKey(
+        resolveKey,
+        envelope.kid,
+        envelope.nonce,
+        envelope.ct,
+        getEnvelopeAad(envelope),
+        structured,
+        envelope.fp
+      );
+    }
+    case 'unversioned':
+      return decryptWithEpochKey(resolveKey, keyEpoch, parsed.nonce, parsed.ct);
+    case 'legacy':
+      try {
+        const text = decryptLegacyMessage(parsed.ciphertext);
+        return text ? { status: 'legacy', text } : { status: 'tampered' };
+      } catch (error) {
+        console.error('Legacy decryption error:', error);
+        return { status: 'tampered' };
+      }
+    default:
+      return { status: 'unsupported' };
+  }
+};
+
+export const encryptMessage = (
+  message: string | MessageBody,
+  context: ConversationContext,
+  keyEpoch: number,
+  options?: { migration?: boolean }
+): Promise<EncryptedMessage> => {
+  return sealMessage(message, (epoch) => getConversationKey(context, epoch), keyEpoch, options);
+};
+
+export const decryptMessage = (
+  encryptedMessage: string,
+  context: ConversationContext,
+  keyEpoch = 0
+): Promise<DecryptResult> => {
+  return openMessage(encryptedMessage, (epoch) => getConversationKey(context, epoch), keyEpoch);
+};
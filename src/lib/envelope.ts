@@ -0,0 +1,127 @@
+// Wire format for direct_messages.content. The header fields travel in the clear
+// and are bound to the ciphertext as AES-GCM additional data, so changing any of
+// them makes decryption fail as tampered.
+
+// Version 1 carries plain text. Version 2 carries a JSON MessageBody and is only
+// used when there is more than text to send, so older clients still read plain
+// messages and show anything richer as unsupported instead of as raw JSON.
+export const ENVELOPE_VERSION = 1;
+export const STRUCTURED_ENVELOPE_VERSION = 2;
+export const ENVELOPE_ALGORITHM = 'A256GCM';
+
+export const LEGACY_PREFIX = 'U2FsdGVkX1'; // base64 of CryptoJS's "Salted__" header
+
+export interface EnvelopeHeader {
+  v: number;
+  alg: string;
+  kid: number;
+  // Fingerprint of the key itself. The epoch alone doesn't say which key was
+  // used, so a different key under the same epoch reads as unknown, not tampered.
+  // Missing only on envelopes written before it was added.
+  fp?: string;
+  // Set when a legacy passphrase message is re-encrypted, the one rewrite the
+  // server doesn't record as an edit. Omitted otherwise.
+  mig?: 1;
+}
+
+export interface MessageEnvelope extends EnvelopeHeader {
+  nonce: string;
+  ct: string;
+}
+
+export type AttachmentKind = 'file' | 'image' | 'voice';
+
+// Everything needed to fetch and decrypt an uploaded blob. It only ever travels
+// inside an encrypted body, so the storage path alone is useless to the server.
+export interface AttachmentRef {
+  kind: AttachmentKind;
+  path: string;
+  name: string;
+  mime: string;
+  size: number;
+  key: string;
+  nonce: string;
+  thumbnail?: string;
+  width?: number;
+  height?: number;
+  duration?: number;
+}
+
+// Unfurled by the sender's client and sent inside the encrypted body, so
+// neither the server nor the recipient's client ever requests the URL
+export interface LinkPreview {
+  url: string;
+  title: string;
+  description?: string;
+  siteName?: string;
+  image?: string;
+}
+
+export interface MessageBody {
+  text: string;
+  attachments?: AttachmentRef[];
+  previews?: LinkPreview[];
+}
+
+export type ParsedContent =
+  | { format: 'envelope'; envelope: MessageEnvelope }
+  | { format: 'unversioned'; nonce: string; ct: string }
+  | { format: 'legacy'; ciphertext: string }
+  | { format: 'unknown' };
+
+export const serializeEnvelope = (envelope: MessageEnvelope): string => JSON.stringify(envelope);
+
+// Optional fields are left out of the JSON when unset
+export const getEnvelopeAad = ({ v, alg, kid, fp, mig }: EnvelopeHeader): Uint8Array => {
+  return new TextEncoder().encode(JSON.stringify({ v, alg, kid, fp, mig }));
+};
+
+export const parseContent = (content: string): ParsedContent => {
+  if (content.startsWith(LEGACY_PREFIX)) {
+    return { format: 'legacy', ciphertext: content };
+  }
+
+  if (content.startsWith('{')) {
+    try {
+      const envelope = JSON.parse(content) as MessageEnvelope;
+      if (
+        typeof envelope.v === 'number' &&
+        typeof envelope.alg === 'string' &&
+        typeof envelope.kid === 'number' &&
+        (envelope.fp === undefined || typeof envelope.fp === 'string') &&
+        typeof envelope.nonce === 'string' &&
+        typeof envelope.ct === 'string'
+      ) {
+        return { format: 'envelope', envelope };
+      }
+    } catch {
+      return { format: 'unknown' };
+    }
+    return { format: 'unknown' };
+  }
+
+  // Messages sent before the envelope existed were stored as "nonce:ciphertext"
+  const parts = content.split(':');
+  if (parts.length === 2 && parts[0] && parts[1]) {
+    return { format: 'unversioned', nonce: parts[0], ct: parts[1] };
+  }
+
+  return { format: 'unknown' };
+};
+
+export const isStructuredBody = (body: MessageBody) =>
+  (body.attachments?.length ?? 0) > 0 || (body.previews?.length ?? 0) > 0;
+
+export const serializeBody = (body: MessageBody): string => JSON.stringify(body);
+
+export const parseBody = (plaintext: string): MessageBody | null => {
+  try {
+    const body = JSON.parse(plaintext) as MessageBody;
+    if (typeof body.text !== 'string') return null;
+    if (body.attachments !== undefined && !Array.isArray(body.attachments)) return null;
+    if (body.previews !== undefined && !Array.isArray(body.previews)) return null;
+    return body;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,134 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type FriendshipStatus = 'pending' | 'accepted';
+
+export interface FriendProfile {
+  id: string;
+  user_id: string;
+  username: string;
+  display_name: string;
+  bio: string;
+  status: string;
+  avatar_url?: string;
+  status_emoji?: string | null;
+  status_text?: string | null;
+  status_expires_at?: string | null;
+  dnd_until?: string | null;
+}
+
+export interface Friendship {
+  id: string;
+  requester_id: string;
+  addressee_id: string;
+  status: FriendshipStatus;
+  created_at: string;
+  requester: FriendProfile;
+  addressee: FriendProfile;
+}
+
+export class FriendRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FriendRequestError';
+  }
+}
+
+export const getOtherProfile = (friendship: Friendship, userId: string): FriendProfile => {
+  return friendship.requester_id === userId ? friendship.addressee : friendship.requester;
+};
+
+export const fetchFriendships = async (userId: string): Promise<Friendship[]> => {
+  const { data, error } = await supabase
+    .from('friendships')
+    .select(`
+      *,
+      requester:profiles!friendships_requester_id_fkey(*),
+      addressee:profiles!friendships_addressee_id_fkey(*)
+    `)
+    .or(`requester_id.eq.${userId},addressee_id.eq.${userId}`)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  // A profile comes back null when its owner has blocked this user; treat
+  // those friendships as gone rather than rendering an empty contact
+  return ((data || []) as Friendship[]).filter(friendship => friendship.requester && friendship.addressee);
+};
+
+export const fetchFriendProfiles = async (userId: string): Promise<FriendProfile[]> => {
+  const friendships = await fetchFriendships(userId);
+  return friendships
+    .filter(friendship => friendship.status === 'accepted')
+    .map(friendship => getOtherProfile(friendship, userId));
+};
+
+// Sending a request to someone who already asked you accepts theirs instead
+export const sendFriendRequest = async (userId: string, username: string): Promise<'sent' | 'accepted'> => {
+  const name = username.trim().replace(/^@/, '');
+  // Case-insensitive, but % and _ must match literally rather than as wildcards.
+  // PostgREST also reads * as % and has no escape for it, so a name containing
+  // one can only be matched exactly.
+  const query = supabase.from('profiles').select('user_id, username');
+  const { data: matches, error } = await (name.includes('*')
+    ? query.eq('username', name)
+    : query.ilike('username', name.replace(/[\\%_]/g, '\\$&'))
+  ).limit(2);
+
+  if (error) throw error;
+  const profile = matches?.length === 1 ? matches[0] : matches?.find(match => match.username === name);
+  if (!profile) {
+    throw new FriendRequestError(matches?.length
+      ? `More than one user matches @${name}; check the capitalization`
+      : `No user named @${name}`);
+  }
+  if (profile.user_id === userId) throw new FriendRequestError("You can't add yourself");
+
+  const { data: existing, error: existingError } = await supabase
+    .from('friendships')
+    .select('id, requester_id, status')
+    .or(`and(requester_id.eq.${userId},addressee_id.eq.${profile.user_id}),and(requester_id.eq.${profile.user_id},addressee_id.eq.${userId})`)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+
+  if (existing) {
+    if (existing.status === 'accepted') throw new FriendRequestError("You're already friends");
+    if (existing.requester_id === userId) throw new FriendRequestError('Friend request already sent');
+    await acceptFriendRequest(existing.id);
+    return 'accepted';
+  }
+
+  const { error: insertError } = await supabase
+    .from('friendships')
+    .insert({ requester_id: userId, addressee_id: profile.user_id, status: 'pending' });
+
+  if (insertError) throw insertError;
+  return 'sent';
+};
+
+export const acceptFriendRequest = async (friendshipId: string) => {
+  const { error } = await supabase
+    .from('friendships')
+    .update({ status: 'accepted', updated_at: new Date().toISOString() })
+    .eq('id', friendshipId);
+
+  if (error) throw error;
+};
+
+// Declining, cancelling and unfriending all remove the row so either side can ask again later
+export const removeFriendship = async (friendshipId: string) => {
+  const { error } = await supabase
+    .from('friendships')
+    .delete()
+    .eq('id', friendshipId);
+
+  if (error) throw error;
+};
+
+export const unfriend = async (userId: string, friendId: string) => {
+  const { error } = await supabase
+    .from('friendships')
+    .delete()
+    .or(`and(requester_id.eq.${userId},addressee_id.eq.${friendId}),and(requester_id.eq.${friendId},addressee_id.eq.${userId})`);
+
+  if (error) throw error;
+};
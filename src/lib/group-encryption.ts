@@ -0,0 +1,210 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  EncryptionError,
+  fromBase64,
+  getKeyFingerprint,
+  getKeyWrappingKey,
+  openMessage,
+  sealMessage,
+  toBase64,
+  type DecryptResult,
+  type EncryptedMessage,
+  type EpochKey,
+} from '@/lib/encryption';
+import type { MessageBody } from '@/lib/envelope';
+
+// Group messages use a random key per epoch instead of a pairwise ECDH key. The
+// key is wrapped for every member, and a new epoch starts whenever someone who
+// held the current key is no longer a member.
+
+export interface GroupContext {
+  conversationId: string;
+  userId: string;
+}
+
+// Attempts at picking a send epoch when other members keep rotating under us
+const MAX_EPOCH_ATTEMPTS = 3;
+
+const keyMaterialCache = new Map<string, Promise<Uint8Array>>();
+const groupKeyCache = new Map<string, Promise<EpochKey>>();
+const pendingSendEpochs = new Map<string, Promise<number>>();
+
+const wrapKeyMaterial = async (material: Uint8Array, userId: string, memberId: string) => {
+  const wrappingKey = await getKeyWrappingKey({ userId, peerId: memberId });
+  const nonce = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, wrappingKey, material);
+  return JSON.stringify({ nonce: toBase64(nonce), ct: toBase64(ciphertext) });
+};
+
+const fetchKeyMaterial = async ({ conversationId, userId }: GroupContext, keyEpoch: number) => {
+  const { data, error } = await supabase
+    .from('conversation_keys')
+    .select('wrapped_by, wrapped_key')
+    .eq('conversation_id', conversationId)
+    .eq('key_epoch', keyEpoch)
+    .eq('member_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error('This group key was never shared with you');
+
+  const { nonce, ct } = JSON.parse(data.wrapped_key) as { nonce: string; ct: string };
+  const wrappingKey = await getKeyWrappingKey({ userId, peerId: data.wrapped_by });
+  const material = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(nonce) }, wrappingKey, fromBase64(ct));
+  return new Uint8Array(material);
+};
+
+const getKeyMaterial = (context: GroupContext, keyEpoch: number): Promise<Uint8Array> => {
+  const cacheKey = `${context.conversationId}|${context.userId}#${keyEpoch}`;
+  let material = keyMaterialCache.get(cacheKey);
+  if (!material) {
+    material = fetchKeyMaterial(context, keyEpoch);
+    keyMaterialCache.set(cacheKey, material);
+    material.catch(() => keyMaterialCache.delete(cacheKey));
+  }
+  return material;
+};
+
+export const getGroupKey = (context: GroupContext, keyEpoch: number): Promise<EpochKey> => {
+  const cacheKey = `${context.conversationId}|${context.userId}#${keyEpoch}`;
+  let key = groupKeyCache.get(cacheKey);
+  if (!key) {
+    key = getKeyMaterial(context, keyEpoch).then(async (material) => ({
+      key: await crypto.subtle.importKey('raw', material, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']),
+      fingerprint: await getKeyFingerprint(material),
+    }));
+    groupKeyCache.set(cacheKey, key);
+    key.catch(() => groupKeyCache.delete(cacheKey));
+  }
+  return key;
+};
+
+const wrapForMembers = async (userId: string, material: Uint8Array, memberIds: string[]) => {
+  try {
+    return await Promise.all(memberIds.map(async (memberId) => ({
+      member_id: memberId,
+      wrapped_key: await wrapKeyMaterial(material, userId, memberId),
+    })));
+  } catch (error) {
+    throw new EncryptionError(error instanceof Error ? error.message : 'Could not share the group key');
+  }
+};
+
+// Passes the current epoch on to members who don't hold it yet. Another member
+// may be doing the same, so copies that already exist are left alone.
+const shareKeyMaterial = async (
+  { conversationId, userId }: GroupContext,
+  keyEpoch: number,
+  material: Uint8Array,
+  memberIds: string[]
+) => {
+  const wrapped = await wrapForMembers(userId, material, memberIds);
+  const { error } = await supabase
+    .from('conversation_keys')
+    .upsert(
+      wrapped.map(copy => ({ ...copy, conversation_id: conversationId, key_epoch: keyEpoch, wrapped_by: userId })),
+      { onConflict: 'conversation_id,key_epoch,member_id', ignoreDuplicates: true }
+    );
+  if (error) throw error;
+};
+
+// The server allocates the epoch and refuses with a unique violation when one
+// newer than `afterEpoch` has started in the meantime
+const startKeyEpoch = async (context: GroupContext, memberIds: string[], afterEpoch: number | null) => {
+  const material = crypto.getRandomValues(new Uint8Array(32));
+  const { data: keyEpoch, error } = await supabase.rpc('start_group_key_epoch', {
+    _conversation_id: context.conversationId,
+    _wrapped_keys: await wrapForMembers(context.userId, material, memberIds),
+    _after_epoch: afterEpoch ?? undefined,
+  });
+
+  if (error) throw error;
+  keyMaterialCache.set(`${context.conversationId}|${context.userId}#${keyEpoch}`, Promise.resolve(material));
+  return keyEpoch;
+};
+
+const isEpochConflict = (error: unknown) => (error as { code?: string } | null)?.code === '23505';
+
+// When another member starts an epoch first, decide again from theirs
+const retryOnEpochConflict = async <T>(run: () => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (!isEpochConflict(error) || attempt >= MAX_EPOCH_ATTEMPTS) throw error;
+    }
+  }
+};
+
+const fetchLatestEpoch = async (conversationId: string): Promise<number | null> => {
+  const { data, error } = await supabase
+    .from('conversation_keys')
+    .select('key_epoch')
+    .eq('conversation_id', conversationId)
+    .order('key_epoch', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? data.key_epoch : null;
+};
+
+// Starts a new epoch whose key only the given members can open
+export const createGroupKey = (context: GroupContext, memberIds: string[]): Promise<number> =>
+  retryOnEpochConflict(async () =>
+    startKeyEpoch(context, memberIds, await fetchLatestEpoch(context.conversationId))
+  );
+
+const checkSendEpoch = async (context: GroupContext, memberIds: string[]): Promise<number> => {
+  const latest = await fetchLatestEpoch(context.conversationId);
+  if (latest === null) return startKeyEpoch(context, memberIds, null);
+
+  const { data, error } = await supabase
+    .from('conversation_keys')
+    .select('member_id')
+    .eq('conversation_id', context.conversationId)
+    .eq('key_epoch', latest);
+
+  if (error) throw error;
+  const holders = new Set((data || []).map(row => row.member_id));
+
+  if ([...holders].some(holder => !memberIds.includes(holder)) || !holders.has(context.userId)) {
+    return startKeyEpoch(context, memberIds, latest);
+  }
+
+  const missing = memberIds.filter(memberId => !holders.has(memberId));
+  if (missing.length > 0) {
+    await shareKeyMaterial(context, latest, await getKeyMaterial(context, latest), missing);
+  }
+  return latest;
+};
+
+const resolveSendEpoch = (context: GroupContext, memberIds: string[]): Promise<number> =>
+  retryOnEpochConflict(() => checkSendEpoch(context, memberIds));
+
+// Makes sure the current epoch key is held by exactly the current members,
+// rotating or sharing as needed, and returns the epoch to send with. The key
+// holders are checked against the server before every send, since the same
+// member set can come back after someone was added and removed again while the
+// epoch stayed the same. Concurrent sends share one check.
+export const getGroupSendEpoch = (context: GroupContext, memberIds: string[]): Promise<number> => {
+  const cacheKey = `${context.conversationId}|${[...memberIds].sort().join(',')}`;
+  let epoch = pendingSendEpochs.get(cacheKey);
+  if (!epoch) {
+    epoch = resolveSendEpoch(context, memberIds).finally(() => pendingSendEpochs.delete(cacheKey));
+    pendingSendEpochs.set(cacheKey, epoch);
+  }
+  return epoch;
+};
+
+export const encryptGroupMessage = (
+  message: string | MessageBody,
+  context: GroupContext,
+  keyEpoch: number
+): Promise<EncryptedMessage> => {
+  return sealMessage(message, (epoch) => getGroupKey(context, epoch), keyEpoch);
+};
+
+export const decryptGroupMessage = (content: string, context: GroupContext): Promise<DecryptResult> => {
+  return openMessage(content, (epoch) => getGroupKey(context, epoch));
+};
@@ -0,0 +1,135 @@
+import { supabase } from '@/integrations/supabase/client';
+import { createGroupKey, getGroupSendEpoch } from '@/lib/group-encryption';
+
+export type GroupRole = 'owner' | 'admin' | 'member';
+
+export interface Group {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+  role: GroupRole;
+}
+
+export interface GroupMember {
+  user_id: string;
+  role: GroupRole;
+  joined_at: string;
+  profile: {
+    username: string;
+    display_name: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+export const canManageMembers = (role: GroupRole) => role === 'owner' || role === 'admin';
+
+// Admins may remove plain members; only the owner can remove admins
+export const canRemoveMember = (actorRole: GroupRole, targetRole: GroupRole) => {
+  if (targetRole === 'owner') return false;
+  return actorRole === 'owner' || (actorRole === 'admin' && targetRole === 'member');
+};
+
+export const fetchGroups = async (userId: string): Promise<Group[]> => {
+  const { data, error } = await supabase
+    .from('conversation_members')
+    .select('role, conversations(id, name, created_by, created_at)')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return (data || [])
+    .filter(row => row.conversations)
+    .map(row => ({ ...row.conversations, role: row.role as GroupRole }));
+};
+
+export const fetchGroupMembers = async (conversationId: string): Promise<GroupMember[]> => {
+  const { data, error } = await supabase
+    .from('conversation_members')
+    .select('user_id, role, joined_at, profile:profiles(username, display_name, avatar_url)')
+    .eq('conversation_id', conversationId)
+    .order('joined_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(row => ({ ...row, role: row.role as GroupRole }));
+};
+
+export const createGroup = async (userId: string, name: string, memberIds: string[]): Promise<string> => {
+  const { data: conversation, error } = await supabase
+    .from('conversations')
+    .insert({ name, created_by: userId })
+    .select('id')
+    .single();
+
+  // The database adds the creator as owner
+  if (error) throw error;
+
+  if (memberIds.length > 0) {
+    const { error: membersError } = await supabase
+      .from('conversation_members')
+      .insert(memberIds.map(memberId => ({ conversation_id: conversation.id, user_id: memberId, role: 'member' })));
+
+    if (membersError) throw membersError;
+  }
+
+  await createGroupKey({ conversationId: conversation.id, userId }, [userId, ...memberIds]);
+  return conversation.id;
+};
+
+export const renameGroup = async (conversationId: string, name: string) => {
+  const { error } = await supabase
+    .from('conversations')
+    .update({ name, updated_at: new Date().toISOString() })
+    .eq('id', conversationId);
+
+  if (error) throw error;
+};
+
+export const addGroupMembers = async (conversationId: string, userId: string, memberIds: string[]) => {
+  const { error } = await supabase
+    .from('conversation_members')
+    .insert(memberIds.map(memberId => ({ conversation_id: conversationId, user_id: memberId, role: 'member' })));
+
+  if (error) throw error;
+
+  // Share the current key right away so new members can read what's sent next
+  const members = await fetchGroupMembers(conversationId);
+  await getGroupSendEpoch({ conversationId, userId }, members.map(member => member.user_id));
+};
+
+// The next message sent to the group rotates the key away from the removed member
+export const removeGroupMember = async (conversationId: string, memberId: string) => {
+  const { error } = await supabase
+    .from('conversation_members')
+    .delete()
+    .eq('conversation_id', conversationId)
+    .eq('user_id', memberId);
+
+  if (error) throw error;
+};
+
+export const setGroupMemberRole = async (conversationId: string, memberId: string, role: GroupRole) => {
+  const { error } = await supabase
+    .from('conversation_members')
+    .update({ role })
+    .eq('conversation_id', conversationId)
+    .eq('user_id', memberId);
+
+  if (error) throw error;
+};
+
+// An owner hands the group to the longest-standing admin, or failing that the
+// longest-standing member, before leaving
+export const leaveGroup = async (conversationId: string, userId: string) => {
+  const members = await fetchGroupMembers(conversationId);
+  const self = members.find(member => member.user_id === userId);
+
+  if (self?.role === 'owner') {
+    const others = members.filter(member => member.user_id !== userId);
+    const successor = others.find(member => member.role === 'admin') ?? others[0];
+    if (successor) {
+      await setGroupMemberRole(conversationId, successor.user_id, 'owner');
+    }
+  }
+
+  await removeGroupMember(conversationId, userId);
+};
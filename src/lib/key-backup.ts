@@ -0,0 +1,105 @@
+import { supabase } from '@/integrations/supabase/client';
+import { fromBase64, loadLocalKeyPair, saveLocalKeyPair, toBase64 } from '@/lib/encryption';
+
+const PBKDF2_ITERATIONS = 310000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export class InvalidPassphraseError extends Error {
+  constructor() {
+    super('Recovery passphrase is incorrect');
+    this.name = 'InvalidPassphraseError';
+  }
+}
+
+const deriveWrappingKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const hasKeyBackup = async (userId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('key_backups')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
+
+export const deleteKeyBackup = async (userId: string) => {
+  const { error } = await supabase
+    .from('key_backups')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+// Wraps the local key pair with a passphrase-derived key and stores only the
+// wrapped blob server-side.
+export const backupPrivateKey = async (userId: string, passphrase: string) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Recovery passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const keyPair = loadLocalKeyPair(userId);
+  if (!keyPair) throw new Error('No private key on this device');
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const wrapped = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    wrappingKey,
+    encoder.encode(JSON.stringify(keyPair))
+  );
+
+  const { error } = await supabase
+    .from('key_backups')
+    .upsert({
+      user_id: userId,
+      wrapped_key: toBase64(wrapped),
+      salt: toBase64(salt),
+      iv: toBase64(iv),
+      iterations: PBKDF2_ITERATIONS,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+};
+
+export const restorePrivateKey = async (userId: string, passphrase: string) => {
+  const { data, error } = await supabase
+    .from('key_backups')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error('No key backup found for this account');
+
+  const wrappingKey = await deriveWrappingKey(passphrase, fromBase64(data.salt), data.iterations);
+  let keyPair;
+  try {
+    const unwrapped = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(data.iv) },
+      wrappingKey,
+      fromBase64(data.wrapped_key)
+    );
+    keyPair = JSON.parse(decoder.decode(unwrapped));
+  } catch {
+    throw new InvalidPassphraseError();
+  }
+
+  saveLocalKeyPair(userId, keyPair);
+};
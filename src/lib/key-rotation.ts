@@ -0,0 +1,83 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getConversationId, type ConversationContext } from '@/lib/encryption';
+
+// A conversation moves to the next key epoch after this many messages or this
+// much time, whichever comes first.
+export const KEY_ROTATION_MESSAGE_LIMIT = 100;
+export const KEY_ROTATION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+interface EpochState {
+  epoch: number;
+  startedAt: number;
+  messageCount: number;
+}
+
+const epochStates = new Map<string, Promise<EpochState>>();
+
+const conversationFilter = ({ userId, peerId }: ConversationContext) =>
+  `and(sender_id.eq.${userId},receiver_id.eq.${peerId}),and(sender_id.eq.${peerId},receiver_id.eq.${userId})`;
+
+const fetchEpochState = async (context: ConversationContext): Promise<EpochState> => {
+  const { data, error } = await supabase
+    .from('direct_messages')
+    .select('key_epoch, created_at')
+    .or(conversationFilter(context))
+    .order('key_epoch', { ascending: false })
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return { epoch: 0, startedAt: Date.now(), messageCount: 0 };
+
+  const { count, error: countError } = await supabase
+    .from('direct_messages')
+    .select('id', { count: 'exact', head: true })
+    .or(conversationFilter(context))
+    .eq('key_epoch', data.key_epoch);
+
+  if (countError) throw countError;
+  return {
+    epoch: data.key_epoch,
+    startedAt: new Date(data.created_at).getTime(),
+    messageCount: count ?? 0,
+  };
+};
+
+const getEpochState = (context: ConversationContext): Promise<EpochState> => {
+  const conversationId = getConversationId(context);
+  let state = epochStates.get(conversationId);
+  if (!state) {
+    state = fetchEpochState(context);
+    epochStates.set(conversationId, state);
+    state.catch(() => epochStates.delete(conversationId));
+  }
+  return state;
+};
+
+// Picks the epoch for the next outgoing message, rotating when the current
+// epoch has been used for too many messages or for too long.
+export const getSendEpoch = async (context: ConversationContext): Promise<number> => {
+  const state = await getEpochState(context);
+  const expired = Date.now() - state.startedAt >= KEY_ROTATION_INTERVAL_MS;
+
+  if (state.messageCount >= KEY_ROTATION_MESSAGE_LIMIT || expired) {
+    state.epoch += 1;
+    state.startedAt = Date.now();
+    state.messageCount = 0;
+  }
+
+  state.messageCount += 1;
+  return state.epoch;
+};
+
+// Keeps both sides moving forward together: once the contact rotates, later
+// messages from us use at least their epoch.
+export const observeEpoch = async (context: ConversationContext, epoch: number, createdAt: string) => {
+  const state = await getEpochState(context);
+  if (epoch > state.epoch) {
+    state.epoch = epoch;
+    state.startedAt = new Date(createdAt).getTime();
+    state.messageCount = 1;
+  }
+};
@@ -0,0 +1,81 @@
+import { differenceInMinutes, format, isToday, isYesterday, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+export type LastSeenVisibility = 'everyone' | 'friends' | 'nobody';
+
+export const LAST_SEEN_VISIBILITY_OPTIONS: { value: LastSeenVisibility; label: string }[] = [
+  { value: 'everyone', label: 'Everyone' },
+  { value: 'friends', label: 'Friends' },
+  { value: 'nobody', label: 'Nobody' },
+];
+
+export const getLastSeenVisibility = async (userId: string): Promise<LastSeenVisibility> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('last_seen_visibility')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data?.last_seen_visibility as LastSeenVisibility | undefined) ?? 'everyone';
+};
+
+export const setLastSeenVisibility = async (userId: string, visibility: LastSeenVisibility) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ last_seen_visibility: visibility })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+// Null when the user hides it from the caller; the database leaves the row out
+export const fetchLastSeen = async (userId: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('user_last_seen')
+    .select('last_seen')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.last_seen ?? null;
+};
+
+export const recordLastSeen = async (userId: string) => {
+  const { error } = await supabase
+    .from('user_last_seen')
+    .upsert({ user_id: userId, last_seen: new Date().toISOString() });
+
+  if (error) throw error;
+};
+
+// For the page being unloaded. The client's own requests first wait on the
+// session and get cut off, so this is a keepalive fetch the browser finishes
+// on its own, built from a token the caller already holds.
+export const recordLastSeenOnExit = (userId: string, accessToken: string) => {
+  const { url } = supabase.from('user_last_seen');
+  fetch(url, {
+    method: 'POST',
+    keepalive: true,
+    headers: {
+      apikey: supabase.realtime.apiKey ?? '',
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      Prefer: 'resolution=merge-duplicates,return=minimal',
+    },
+    body: JSON.stringify({ user_id: userId, last_seen: new Date().toISOString() }),
+  }).catch((error) => console.error('Error recording last seen:', error));
+};
+
+// "just now", "5 minutes ago", "today at 14:02", "yesterday at 14:02",
+// "Monday at 14:02", then a date
+export const formatLastSeen = (timestamp: string, now = new Date()) => {
+  const date = new Date(timestamp);
+  const minutes = differenceInMinutes(now, date);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return minutes === 1 ? '1 minute ago' : `${minutes} minutes ago`;
+  if (isToday(date)) return `today at ${format(date, 'HH:mm')}`;
+  if (isYesterday(date)) return `yesterday at ${format(date, 'HH:mm')}`;
+  if (date > subDays(now, 7)) return `${format(date, 'EEEE')} at ${format(date, 'HH:mm')}`;
+  return date.getFullYear() === now.getFullYear() ? format(date, 'MMM d') : format(date, 'MMM d, yyyy');
+};
@@ -0,0 +1,139 @@
+import CryptoJS from 'crypto-js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { encryptMessage, EncryptionError } from './encryption';
+import { LEGACY_PREFIX } from './envelope';
+import { migrateLegacyMessages, type MigrationProgress } from './legacy-migration';
+
+interface Row {
+  id: string;
+  sender_id: string;
+  receiver_id: string;
+  content: string;
+  created_at: string;
+}
+
+let rows: Row[] = [];
+
+// Just enough of the PostgREST builder for the queries the migration makes
+const from = () => {
+  const filters: ((row: Row) => boolean)[] = [];
+  let limit = Infinity;
+  let head = false;
+  let changes: Partial<Row> | null = null;
+
+  const run = () => {
+    const matched = rows.filter(row => filters.every(filter => filter(row)));
+    if (changes) {
+      matched.forEach(row => Object.assign(row, changes));
+      return { data: matched.map(row => ({ id: row.id })), error: null };
+    }
+    if (head) return { count: matched.length, error: null };
+    const sorted = [...matched].sort((a, b) =>
+      a.created_at === b.created_at ? a.id.localeCompare(b.id) : a.created_at.localeCompare(b.created_at)
+    );
+    return { data: sorted.slice(0, limit).map(row => ({ ...row })), error: null };
+  };
+
+  const builder = {
+    select: (_columns: string, options?: { head?: boolean }) => {
+      head = options?.head ?? false;
+      return builder;
+    },
+    update: (values: Partial<Row>) => {
+      changes = values;
+      return builder;
+    },
+    eq: (column: keyof Row, value: string) => {
+      filters.push(row => row[column] === value);
+      return builder;
+    },
+    like: (column: keyof Row, pattern: string) => {
+      filters.push(row => row[column].startsWith(pattern.replace(/%$/, '')));
+      return builder;
+    },
+    or: (filter: string) => {
+      const [, createdAt, id] = /^created_at\.gt\."([^"]+)",and\(created_at\.eq\."[^"]+",id\.gt\.([^)]+)\)$/.exec(filter) ?? [];
+      filters.push(row => row.created_at > createdAt || (row.created_at === createdAt && row.id > id));
+      return builder;
+    },
+    limit: (count: number) => {
+      limit = count;
+      return builder;
+    },
+    order: () => builder,
+    then: (resolve: (result: ReturnType<typeof run>) => void) => resolve(run()),
+  };
+  return builder;
+};
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: { from: () => from() } }));
+
+vi.mock('./encryption', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./encryption')>(),
+  encryptMessage: vi.fn(),
+}));
+
+const legacy = (text: string) => CryptoJS.AES.encrypt(text, 'chatvibe-e2e-encryption-key-2024').toString();
+
+const makeRow = (index: number, changes: Partial<Row> = {}): Row => ({
+  id: `row-${String(index).padStart(3, '0')}`,
+  sender_id: 'me',
+  receiver_id: 'friend',
+  content: legacy(`message ${index}`),
+  // The first half shares one timestamp, so batches have to page on the id too
+  created_at: new Date(Date.UTC(2024, 0, 1, 0, 0, Math.max(index - 59, 0))).toISOString(),
+  ...changes,
+});
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.mocked(encryptMessage).mockReset().mockImplementation(async (message, context) => {
+    if (context.peerId === 'no-key') throw new EncryptionError('Contact has not published a public key');
+    return { content: JSON.stringify({ migrated: message }), keyEpoch: 0 };
+  });
+});
+
+describe('migrateLegacyMessages', () => {
+  it('visits every legacy row once across batches', async () => {
+    rows = Array.from({ length: 120 }, (_, index) => makeRow(index, {
+      ...(index % 12 === 0 && { receiver_id: 'no-key' }),
+      ...(index === 119 && { content: `${LEGACY_PREFIX}garbage` }),
+    }));
+    rows.push(makeRow(200, { sender_id: 'someone-else' }));
+
+    const updates: MigrationProgress[] = [];
+    const progress = await migrateLegacyMessages('me', update => updates.push({ ...update }));
+
+    expect(progress).toMatchObject({ total: 120, migrated: 109, skipped: 10, failed: 1, completedAt: null });
+    expect(updates.map(update => update.migrated + update.skipped + update.failed)).toEqual([0, 50, 100, 120]);
+
+    const encrypted = vi.mocked(encryptMessage).mock.calls.map(([message]) => message);
+    expect(encrypted).toHaveLength(119);
+    expect(new Set(encrypted).size).toBe(119);
+
+    // Skipped rows stay legacy and are retried from the start next time
+    expect(rows.filter(row => row.content.startsWith(LEGACY_PREFIX))).toHaveLength(12);
+    expect(localStorage.getItem('chatvibe-legacy-migration-me')).toBeNull();
+  });
+
+  it('resumes after the saved cursor', async () => {
+    rows = Array.from({ length: 120 }, (_, index) => makeRow(index));
+    const saved: MigrationProgress = {
+      total: 120,
+      migrated: 70,
+      skipped: 0,
+      failed: 0,
+      cursor: { id: rows[69].id, created_at: rows[69].created_at },
+      completedAt: null,
+    };
+    localStorage.setItem('chatvibe-legacy-migration-me', JSON.stringify(saved));
+
+    const progress = await migrateLegacyMessages('me');
+
+    expect(progress).toMatchObject({ total: 120, migrated: 120, skipped: 0, failed: 0 });
+    expect(progress.completedAt).not.toBeNull();
+    expect(vi.mocked(encryptMessage)).toHaveBeenCalledTimes(50);
+    expect(rows.slice(0, 70).every(row => row.content.startsWith(LEGACY_PREFIX))).toBe(true);
+    expect(rows.slice(70).some(row => row.content.startsWith(LEGACY_PREFIX))).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+import { supabase } from '@/integrations/supabase/client';
+import { decryptLegacyMessage, encryptMessage, EncryptionError } from '@/lib/encryption';
+import { LEGACY_PREFIX } from '@/lib/envelope';
+import type { MessageCursor } from '@/lib/messages';
+
+const MIGRATION_STORAGE_PREFIX = 'chatvibe-legacy-migration-';
+const BATCH_SIZE = 50;
+
+export interface MigrationProgress {
+  total: number;
+  migrated: number;
+  skipped: number;
+  failed: number;
+  // The last processed row, so a closed tab picks up where it stopped
+  cursor: MessageCursor | null;
+  completedAt: string | null;
+}
+
+const loadProgress = (userId: string): MigrationProgress | null => {
+  const stored = localStorage.getItem(MIGRATION_STORAGE_PREFIX + userId);
+  if (!stored) return null;
+  const progress = JSON.parse(stored) as MigrationProgress | (Omit<MigrationProgress, 'cursor'> & { cursor: string | null });
+  // Older runs kept only a timestamp, which can skip rows; start those over
+  if (typeof progress.cursor === 'string' && !progress.completedAt) return null;
+  return progress as MigrationProgress;
+};
+
+// Keyset on (created_at, id) so rows sharing a timestamp aren't skipped across batches
+const afterCursor = (cursor: MessageCursor) =>
+  `created_at.gt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.gt.${cursor.id})`;
+
+const saveProgress = (userId: string, progress: MigrationProgress) => {
+  localStorage.setItem(MIGRATION_STORAGE_PREFIX + userId, JSON.stringify(progress));
+};
+
+export const getMigrationProgress = loadProgress;
+
+const countLegacyMessages = async (userId: string, cursor: MessageCursor | null) => {
+  let query = supabase
+    .from('direct_messages')
+    .select('id', { count: 'exact', head: true })
+    .eq('sender_id', userId)
+    .like('content', `${LEGACY_PREFIX}%`);
+
+  if (cursor) query = query.or(afterCursor(cursor));
+
+  const { count, error } = await query;
+  if (error) throw error;
+  return count ?? 0;
+};
+
+// Re-encrypts the messages this user sent under the old shared passphrase with
+// the per-conversation keys, one batch at a time. Rows whose recipient has no
+// public key yet are skipped and stay readable through the legacy path.
+export const migrateLegacyMessages = async (
+  userId: string,
+  onProgress?: (progress: MigrationProgress) => void
+): Promise<MigrationProgress> => {
+  let progress = loadProgress(userId);
+  if (progress?.completedAt) return progress;
+
+  if (!progress) {
+    progress = { total: 0, migrated: 0, skipped: 0, failed: 0, cursor: null, completedAt: null };
+  }
+  const processed = progress.migrated + progress.skipped + progress.failed;
+  progress.total = processed + (await countLegacyMessages(userId, progress.cursor));
+  saveProgress(userId, progress);
+  onProgress?.(progress);
+
+  for (;;) {
+    let query = supabase
+      .from('direct_messages')
+      .select('id, receiver_id, content, created_at')
+      .eq('sender_id', userId)
+      .like('content', `${LEGACY_PREFIX}%`)
+      .limit(BATCH_SIZE);
+
+    if (progress.cursor) query = query.or(afterCursor(progress.cursor));
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true });
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+
+    const results = await Promise.all(data.map(async (row): Promise<'migrated' | 'skipped' | 'failed' | 'gone'> => {
+      let plaintext: string;
+      try {
+        plaintext = decryptLegacyMessage(row.content);
+      } catch {
+        plaintext = '';
+      }
+      if (!plaintext) return 'failed';
+
+      try {
+        const encrypted = await encryptMessage(plaintext, { userId, peerId: row.receiver_id }, 0, { migration: true });
+        const { data: updated, error: updateError } = await supabase
+          .from('direct_messages')
+          .update({ content: encrypted.content, key_epoch: encrypted.keyEpoch })
+          .eq('id', row.id)
+          .eq('content', row.content) // another tab may have migrated it already
+          .select('id');
+
+        if (updateError) throw updateError;
+        return updated && updated.length > 0 ? 'migrated' : 'gone';
+      } catch (error) {
+        if (!(error instanceof EncryptionError)) throw error;
+        return 'skipped';
+      }
+    }));
+
+    progress.migrated += results.filter(result => result === 'migrated').length;
+    progress.skipped += results.filter(result => result === 'skipped').length;
+    progress.failed += results.filter(result => result === 'failed').length;
+    // Rewritten or deleted elsewhere in the meantime, so no longer this run's to count
+    progress.total -= results.filter(result => result === 'gone').length;
+    const last = data[data.length - 1];
+    progress.cursor = { id: last.id, created_at: last.created_at };
+    saveProgress(userId, progress);
+    onProgress?.(progress);
+  }
+
+  // Skipped rows are retried from the start on the next login; rows that can't
+  // be decrypted at all are left as they are
+  if (progress.skipped > 0) {
+    localStorage.removeItem(MIGRATION_STORAGE_PREFIX + userId);
+  } else {
+    progress.completedAt = new Date().toISOString();
+    saveProgress(userId, progress);
+  }
+  return progress;
+};
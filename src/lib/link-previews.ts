@@ -0,0 +1,160 @@
+import { createThumbnail } from './attachments';
+import type { LinkPreview } from './envelope';
+
+export const MAX_PREVIEWS_PER_MESSAGE = 1;
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_HTML_BYTES = 512 * 1024;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 300;
+
+const LINK_PREVIEWS_STORAGE_KEY = 'chatvibe_link_previews';
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"'`]+/gi;
+// Punctuation that usually ends the sentence rather than the URL
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}]+$/;
+
+// Unfurling requests the page from this device, which tells the site the
+// user's IP address, so it can be switched off per device
+export const getLinkPreviewsEnabled = () => localStorage.getItem(LINK_PREVIEWS_STORAGE_KEY) !== 'off';
+
+export const setLinkPreviewsEnabled = (enabled: boolean) => {
+  localStorage.setItem(LINK_PREVIEWS_STORAGE_KEY, enabled ? 'on' : 'off');
+};
+
+// URLs inside inline code or fenced blocks are usually examples, not links to unfurl
+export const extractUrls = (text: string): string[] => {
+  const prose = text.replace(/```[\s\S]*?```/g, ' ').replace(/`[^`\n]*`/g, ' ');
+  const urls = (prose.match(URL_PATTERN) ?? []).map(url => url.replace(TRAILING_PUNCTUATION, ''));
+  return [...new Set(urls)].filter(url => {
+    try {
+      return ['http:', 'https:'].includes(new URL(url).protocol);
+    } catch {
+      return false;
+    }
+  });
+};
+
+const clip = (value: string | null | undefined, length: number) => {
+  const collapsed = value?.replace(/\s+/g, ' ').trim();
+  if (!collapsed) return undefined;
+  return collapsed.length > length ? `${collapsed.slice(0, length - 1)}…` : collapsed;
+};
+
+const fetchWithTimeout = async (url: string, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort);
+  try {
+    return await fetch(url, {
+      signal: controller.signal,
+      credentials: 'omit',
+      referrerPolicy: 'no-referrer',
+    });
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener('abort', abort);
+  }
+};
+
+// Reads at most `limit` bytes so a huge page or image can't stall the composer
+const readLimited = async (response: Response, limit: number) => {
+  const reader = response.body?.getReader();
+  if (!reader) return new Uint8Array(await response.arrayBuffer()).slice(0, limit);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < limit) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  reader.cancel().catch(() => undefined);
+
+  const bytes = new Uint8Array(Math.min(size, limit));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+// The image is fetched and shrunk here as well, so recipients render an
+// embedded thumbnail instead of contacting the third-party site
+const fetchPreviewImage = async (url: string, signal?: AbortSignal) => {
+  try {
+    const response = await fetchWithTimeout(url, signal);
+    if (!response.ok || !response.headers.get('content-type')?.startsWith('image/')) return undefined;
+    const bytes = await readLimited(response, MAX_IMAGE_BYTES);
+    const { thumbnail } = await createThumbnail(new Blob([bytes]));
+    return thumbnail;
+  } catch {
+    return undefined;
+  }
+};
+
+const getMeta = (doc: Document, ...names: string[]) => {
+  for (const name of names) {
+    const content = doc.querySelector(`meta[property="${name}"], meta[name="${name}"]`)?.getAttribute('content');
+    if (content?.trim()) return content;
+  }
+  return null;
+};
+
+// Fetched straight from the browser, so it only works for pages served with
+// CORS headers that allow it (or a local mock server during development). Most
+// sites don't send them and simply get no preview; going through a proxy would
+// instead show it every link users share. Returns null when the page can't be
+// unfurled.
+export const fetchLinkPreview = async (url: string, signal?: AbortSignal): Promise<LinkPreview | null> => {
+  try {
+    const response = await fetchWithTimeout(url, signal);
+    if (!response.ok || !response.headers.get('content-type')?.includes('text/html')) return null;
+
+    const html = new TextDecoder().decode(await readLimited(response, MAX_HTML_BYTES));
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+
+    const title = clip(getMeta(doc, 'og:title', 'twitter:title') ?? doc.title, MAX_TITLE_LENGTH);
+    if (!title) return null;
+
+    const imageUrl = getMeta(doc, 'og:image', 'og:image:url', 'twitter:image');
+    let image: string | undefined;
+    if (imageUrl) {
+      const resolved = new URL(imageUrl, response.url || url);
+      if (['http:', 'https:'].includes(resolved.protocol)) {
+        image = await fetchPreviewImage(resolved.href, signal);
+      }
+    }
+
+    return {
+      url,
+      title,
+      description: clip(getMeta(doc, 'og:description', 'twitter:description', 'description'), MAX_DESCRIPTION_LENGTH),
+      siteName: clip(getMeta(doc, 'og:site_name'), MAX_TITLE_LENGTH) ?? new URL(url).hostname,
+      ...(image && { image }),
+    };
+  } catch (error) {
+    if (!signal?.aborted) console.error('Error fetching link preview:', error);
+    return null;
+  }
+};
+
+// Received previews are rendered from untrusted data, so only keep well-formed
+// http(s) links and embedded image thumbnails, and no more than a sender could add
+export const sanitizePreviews = (previews: LinkPreview[] | undefined): LinkPreview[] =>
+  (previews ?? []).slice(0, MAX_PREVIEWS_PER_MESSAGE).filter(preview => {
+    if (typeof preview?.url !== 'string' || typeof preview.title !== 'string') return false;
+    try {
+      return ['http:', 'https:'].includes(new URL(preview.url).protocol);
+    } catch {
+      return false;
+    }
+  }).map(preview => ({
+    ...preview,
+    image: typeof preview.image === 'string' && preview.image.startsWith('data:image/') ? preview.image : undefined,
+  }));
@@ -0,0 +1,173 @@
+import { deriveDeviceSecret, fromBase64, toBase64 } from './encryption';
+import { openDatabase, promisifyRequest, transactionDone } from './idb';
+import {
+  fetchChangedMessages,
+  fetchHiddenMessageIds,
+  fetchMessagePage,
+  fetchMessagesSince,
+  type ChatTarget,
+  type Message,
+  type MessagePage,
+} from './messages';
+
+// Per device, across all of this user's conversations
+export const MESSAGE_CACHE_QUOTA_BYTES = 25 * 1024 * 1024;
+export const MAX_CACHED_MESSAGES = 200;
+
+const DATABASE_VERSION = 1;
+const KEY_INFO = 'chatvibe-message-cache-v1';
+const NAME_KEY_INFO = 'chatvibe-message-cache-names-v1';
+// Edits are looked for a little before the newest timestamp in the cache, in
+// case one committed just after the rows around it were read
+const CHANGE_WINDOW_MS = 60 * 1000;
+
+// One record per conversation holding its newest messages. The conversation id
+// is a keyed hash and the rows are encrypted, so the database only shows sizes
+// and when each conversation was last opened.
+interface CachedConversation {
+  key: string;
+  accessedAt: number;
+  size: number;
+  nonce: string;
+  ct: string;
+}
+
+interface MessageCache {
+  db: IDBDatabase;
+  key: CryptoKey;
+  nameKey: CryptoKey;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const caches = new Map<string, Promise<MessageCache>>();
+
+const openMessageCache = (userId: string): Promise<MessageCache> => {
+  let cache = caches.get(userId);
+  if (!cache) {
+    cache = (async () => {
+      const [secret, nameSecret] = await Promise.all([
+        deriveDeviceSecret(userId, KEY_INFO),
+        deriveDeviceSecret(userId, NAME_KEY_INFO),
+      ]);
+      const db = await openDatabase(`chatvibe-messages-${userId}`, DATABASE_VERSION, (database) => {
+        database.createObjectStore('conversations', { keyPath: 'key' }).createIndex('accessedAt', 'accessedAt');
+      });
+      return {
+        db,
+        key: await crypto.subtle.importKey('raw', secret, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']),
+        nameKey: await crypto.subtle.importKey('raw', nameSecret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+      };
+    })();
+    caches.set(userId, cache);
+    cache.catch(() => caches.delete(userId));
+  }
+  return cache;
+};
+
+const getRecordKey = async (cache: MessageCache, target: ChatTarget) => {
+  const signature = await crypto.subtle.sign('HMAC', cache.nameKey, encoder.encode(target.conversationId ?? target.peerId));
+  return toBase64(signature);
+};
+
+// Cached rows for a conversation, oldest first. Records that no longer decrypt
+// (the device got a new key pair) are treated as a miss and dropped.
+export const loadCachedMessages = async (userId: string, target: ChatTarget): Promise<Message[]> => {
+  const cache = await openMessageCache(userId);
+  const key = await getRecordKey(cache, target);
+  const store = cache.db.transaction('conversations', 'readonly').objectStore('conversations');
+  const record = await promisifyRequest(store.get(key)) as CachedConversation | undefined;
+  if (!record) return [];
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(record.nonce), additionalData: encoder.encode(key) },
+      cache.key,
+      fromBase64(record.ct)
+    );
+    const touch = cache.db.transaction('conversations', 'readwrite');
+    touch.objectStore('conversations').put({ ...record, accessedAt: Date.now() });
+    await transactionDone(touch);
+    return JSON.parse(decoder.decode(plaintext)) as Message[];
+  } catch (error) {
+    console.error('Discarding unreadable message cache:', error);
+    const discard = cache.db.transaction('conversations', 'readwrite');
+    discard.objectStore('conversations').delete(key);
+    await transactionDone(discard);
+    return [];
+  }
+};
+
+// Least recently opened conversations go first; the one just written is kept
+const evictOverQuota = async (cache: MessageCache, keep: string) => {
+  const transaction = cache.db.transaction('conversations', 'readwrite');
+  const store = transaction.objectStore('conversations');
+  const records = await promisifyRequest(store.index('accessedAt').getAll()) as CachedConversation[];
+
+  let total = records.reduce((sum, record) => sum + record.size, 0);
+  for (const record of records) {
+    if (total <= MESSAGE_CACHE_QUOTA_BYTES) break;
+    if (record.key === keep) continue;
+    store.delete(record.key);
+    total -= record.size;
+  }
+  await transactionDone(transaction);
+};
+
+// Replaces the conversation's cached window with the newest loaded messages
+export const saveCachedMessages = async (userId: string, target: ChatTarget, messages: Message[]) => {
+  const cache = await openMessageCache(userId);
+  const key = await getRecordKey(cache, target);
+  const nonce = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce, additionalData: encoder.encode(key) },
+    cache.key,
+    encoder.encode(JSON.stringify(messages.slice(-MAX_CACHED_MESSAGES)))
+  );
+
+  const record: CachedConversation = {
+    key,
+    accessedAt: Date.now(),
+    size: ciphertext.byteLength,
+    nonce: toBase64(nonce),
+    ct: toBase64(ciphertext),
+  };
+  const transaction = cache.db.transaction('conversations', 'readwrite');
+  transaction.objectStore('conversations').put(record);
+  await transactionDone(transaction);
+  await evictOverQuota(cache, key);
+};
+
+const getWatermark = (messages: Message[]) =>
+  messages.reduce((latest, message) => {
+    const changed = [message.created_at, message.edited_at, message.deleted_at]
+      .filter((timestamp): timestamp is string => !!timestamp)
+      .map(timestamp => new Date(timestamp).getTime());
+    return Math.max(latest, ...changed);
+  }, 0);
+
+const byCreation = (a: Message, b: Message) =>
+  a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id);
+
+// Brings cached messages up to date: new rows since the newest one, edits and
+// tombstones since the last change seen, and anything hidden on another device.
+// If the conversation moved on by more than a page, the latest page replaces the cache.
+export const syncCachedMessages = async (target: ChatTarget, cached: Message[]): Promise<MessagePage> => {
+  const since = new Date(getWatermark(cached) - CHANGE_WINDOW_MS).toISOString();
+  const [added, changed, hidden] = await Promise.all([
+    fetchMessagesSince(target, cached[cached.length - 1]),
+    fetchChangedMessages(target, since),
+    fetchHiddenMessageIds(target.userId, cached.map(message => message.id)),
+  ]);
+  if (added.hasMore) return fetchMessagePage(target);
+
+  const merged = new Map(cached.filter(message => !hidden.has(message.id)).map(message => [message.id, message]));
+  changed.forEach(message => {
+    if (merged.has(message.id)) merged.set(message.id, message);
+  });
+  added.messages.forEach(message => merged.set(message.id, message));
+
+  const messages = [...merged.values()].sort(byCreation);
+  // Whether older history exists isn't known from the cache; paging back finds out
+  return { messages, hasMore: true, cursor: messages[0] ?? null };
+};
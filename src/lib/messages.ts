@@ -0,0 +1,308 @@
+import { supabase } from '@/integrations/supabase/client';
+import { decryptMessage, type DecryptResult, type EncryptedMessage } from './encryption';
+import { decryptGroupMessage } from './group-encryption';
+
+export const MESSAGE_PAGE_SIZE = 50;
+// How far back jumping to a quoted or searched message will page before giving up
+export const MAX_JUMP_PAGES = 20;
+
+export interface Message {
+  id: string;
+  sender_id: string;
+  receiver_id: string | null;
+  conversation_id: string | null;
+  content: string;
+  key_epoch: number;
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reply_to_id: string | null;
+}
+
+export interface MessageVersion {
+  created_at: string;
+  result: DecryptResult;
+}
+
+// Exactly one of peerId (direct chat) or conversationId (group) is set
+export interface ChatTarget {
+  userId: string;
+  peerId?: string;
+  conversationId?: string;
+}
+
+// cursor is the oldest row fetched, which may be one this user hid
+export interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+  cursor: Message | null;
+}
+
+export interface JumpResult extends MessagePage {
+  found: boolean;
+}
+
+const decryptionCache = new Map<string, { content: string; result: Promise<DecryptResult> }>();
+
+// `condition` is added to both directions, since PostgREST can't AND two or= filters here
+const directFilter = (userId: string, peerId: string, condition?: string) => {
+  const extra = condition ? `,${condition}` : '';
+  return `and(sender_id.eq.${userId},receiver_id.eq.${peerId}${extra}),and(sender_id.eq.${peerId},receiver_id.eq.${userId}${extra})`;
+};
+
+// Rows strictly older than the cursor, with the id breaking ties between rows
+// that share a timestamp
+const olderThan = (cursor: MessageCursor) =>
+  `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`;
+
+const newerThan = (cursor: MessageCursor) =>
+  `created_at.gt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.gt.${cursor.id})`;
+
+// Pages go backwards from `before` (the oldest message already loaded) and come
+// back oldest first, keyed on (created_at, id) like the order so no row is
+// skipped or repeated however many share a timestamp
+export const fetchMessagePage = async (target: ChatTarget, before?: MessageCursor): Promise<MessagePage> => {
+  let query = supabase
+    .from('direct_messages')
+    .select('*');
+
+  if (target.conversationId) {
+    query = query.eq('conversation_id', target.conversationId);
+    if (before) query = query.or(olderThan(before));
+  } else {
+    query = query.or(directFilter(target.userId, target.peerId, before && `or(${olderThan(before)})`));
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(MESSAGE_PAGE_SIZE);
+
+  if (error) throw error;
+  const messages = (data || []).reverse();
+  const hidden = await fetchHiddenMessageIds(target.userId, messages.map(message => message.id));
+
+  return {
+    messages: messages.filter(message => !hidden.has(message.id)),
+    hasMore: messages.length === MESSAGE_PAGE_SIZE,
+    cursor: messages[0] ?? null,
+  };
+};
+
+// Pages back from `before` until `messageId` is loaded, returning everything
+// fetched on the way so the gap to what's already on screen is filled
+export const fetchPagesUntil = async (
+  target: ChatTarget,
+  before: Message,
+  messageId: string
+): Promise<JumpResult> => {
+  let messages: Message[] = [];
+  let page: MessagePage = { messages: [], hasMore: true, cursor: before };
+
+  for (let pages = 0; pages < MAX_JUMP_PAGES && page.hasMore && page.cursor; pages++) {
+    const previousCursor = page.cursor;
+    page = await fetchMessagePage(target, previousCursor);
+    messages = mergeOlderPage(messages, page.messages);
+
+    if (page.messages.some(message => message.id === messageId)) {
+      return { ...page, messages, found: true };
+    }
+    if (page.cursor?.id === previousCursor.id) break;
+  }
+
+  return { ...page, messages, found: false };
+};
+
+// Newer messages than `after`, oldest first, keyed on (created_at, id) like fetchMessagePage
+export const fetchMessagesSince = async (target: ChatTarget, after: MessageCursor): Promise<Omit<MessagePage, 'cursor'>> => {
+  let query = supabase
+    .from('direct_messages')
+    .select('*');
+
+  query = target.conversationId
+    ? query.eq('conversation_id', target.conversationId).or(newerThan(after))
+    : query.or(directFilter(target.userId, target.peerId, `or(${newerThan(after)})`));
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(MESSAGE_PAGE_SIZE);
+
+  if (error) throw error;
+  const messages = data || [];
+  const hidden = await fetchHiddenMessageIds(target.userId, messages.map(message => message.id));
+
+  return {
+    messages: messages.filter(message => !hidden.has(message.id)),
+    hasMore: messages.length === MESSAGE_PAGE_SIZE,
+  };
+};
+
+// Messages edited or deleted at or after `since`
+export const fetchChangedMessages = async (target: ChatTarget, since: string): Promise<Message[]> => {
+  const changed = `or(edited_at.gte."${since}",deleted_at.gte."${since}")`;
+  let query = supabase
+    .from('direct_messages')
+    .select('*');
+
+  query = target.conversationId
+    ? query.eq('conversation_id', target.conversationId).or(`edited_at.gte."${since}",deleted_at.gte."${since}"`)
+    : query.or(
+        `and(sender_id.eq.${target.userId},receiver_id.eq.${target.peerId},${changed}),` +
+        `and(sender_id.eq.${target.peerId},receiver_id.eq.${target.userId},${changed})`
+      );
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+export type MessageCursor = Pick<Message, 'id' | 'created_at'>;
+
+// Oldest-first across every conversation the user can read, for background
+// work like indexing. The cursor is the last raw row, as in fetchMessagePage.
+export const fetchMessagesAfter = async (
+  userId: string,
+  after: MessageCursor | null,
+  limit = MESSAGE_PAGE_SIZE
+): Promise<{ messages: Message[]; hasMore: boolean; cursor: MessageCursor | null }> => {
+  let query = supabase
+    .from('direct_messages')
+    .select('*');
+
+  if (after) {
+    query = query.or(newerThan(after));
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+  const messages = data || [];
+  const hidden = await fetchHiddenMessageIds(userId, messages.map(message => message.id));
+  const last = messages[messages.length - 1];
+
+  return {
+    messages: messages.filter(message => !hidden.has(message.id)),
+    hasMore: messages.length === limit,
+    cursor: last ? { id: last.id, created_at: last.created_at } : after,
+  };
+};
+
+export const fetchMessage = async (messageId: string): Promise<Message | null> => {
+  const { data, error } = await supabase
+    .from('direct_messages')
+    .select('*')
+    .eq('id', messageId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchHiddenMessageIds = async (userId: string, messageIds: string[]): Promise<Set<string>> => {
+  if (messageIds.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from('hidden_messages')
+    .select('message_id')
+    .eq('user_id', userId)
+    .in('message_id', messageIds);
+
+  if (error) throw error;
+  return new Set((data || []).map(hidden => hidden.message_id));
+};
+
+// Prepends an older page, dropping rows already loaded some other way (a realtime insert or a jump)
+export const mergeOlderPage = (current: Message[], older: Message[]) => {
+  const loaded = new Set(current.map(message => message.id));
+  return [...older.filter(message => !loaded.has(message.id)), ...current];
+};
+
+// Results are cached per message id for the whole session; a changed content
+// (an edit or a migration rewrite) is decrypted afresh
+const decryptContent = (
+  message: Pick<Message, 'sender_id' | 'receiver_id' | 'conversation_id'>,
+  content: string,
+  keyEpoch: number,
+  userId: string
+): Promise<DecryptResult> => {
+  return message.conversation_id
+    ? decryptGroupMessage(content, { conversationId: message.conversation_id, userId })
+    : decryptMessage(
+        content,
+        { userId, peerId: message.sender_id === userId ? message.receiver_id : message.sender_id },
+        keyEpoch
+      );
+};
+
+type StoredCiphertext = Pick<Message, 'id' | 'sender_id' | 'receiver_id' | 'conversation_id' | 'content' | 'key_epoch'>;
+
+// Background passes over the whole history skip the cache so it only holds
+// what's been on screen
+export const decryptStoredMessage = (message: StoredCiphertext, userId: string, cache = true): Promise<DecryptResult> => {
+  const cached = decryptionCache.get(message.id);
+  if (cached && cached.content === message.content) return cached.result;
+
+  const result = decryptContent(message, message.content, message.key_epoch, userId);
+  if (!cache) return result;
+  decryptionCache.set(message.id, { content: message.content, result });
+
+  // The key may still arrive (a late group key share, a restored backup), so retry next time
+  result.then((decrypted) => {
+    if (decrypted.status === 'unknown-key' && decryptionCache.get(message.id)?.result === result) {
+      decryptionCache.delete(message.id);
+    }
+  });
+  return result;
+};
+
+// Newest first. Each version is decrypted with the key that sealed it.
+export const fetchEditHistory = async (message: Message, userId: string): Promise<MessageVersion[]> => {
+  const { data, error } = await supabase
+    .from('message_edits')
+    .select('content, key_epoch, created_at')
+    .eq('message_id', message.id)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return Promise.all(
+    (data || []).map(async (version) => ({
+      created_at: version.created_at,
+      result: await decryptContent(message, version.content, version.key_epoch, userId),
+    }))
+  );
+};
+
+// The database keeps the previous ciphertext and sets edited_at itself
+export const editMessage = async (message: Message, encrypted: EncryptedMessage) => {
+  const { error } = await supabase
+    .from('direct_messages')
+    .update({ content: encrypted.content, key_epoch: encrypted.keyEpoch })
+    .eq('id', message.id)
+    .eq('sender_id', message.sender_id);
+
+  if (error) throw error;
+};
+
+// Leaves a tombstone: the row stays so replies and receipts still line up,
+// but the database clears its content and edit history
+export const deleteMessageForEveryone = async (message: Message) => {
+  const { error } = await supabase
+    .from('direct_messages')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', message.id)
+    .eq('sender_id', message.sender_id);
+
+  if (error) throw error;
+};
+
+export const hideMessage = async (userId: string, messageId: string) => {
+  const { error } = await supabase
+    .from('hidden_messages')
+    .insert({ user_id: userId, message_id: messageId });
+
+  if (error) throw error;
+};
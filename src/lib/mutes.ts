@@ -0,0 +1,33 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// A mute target is the other user's id for direct chats and the conversation id for groups
+export const fetchMutedIds = async (userId: string): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('conversation_mutes')
+    .select('target_id')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return new Set((data || []).map(mute => mute.target_id));
+};
+
+export const muteConversation = async (userId: string, targetId: string) => {
+  const { error } = await supabase
+    .from('conversation_mutes')
+    .upsert(
+      { user_id: userId, target_id: targetId },
+      { onConflict: 'user_id,target_id', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+};
+
+export const unmuteConversation = async (userId: string, targetId: string) => {
+  const { error } = await supabase
+    .from('conversation_mutes')
+    .delete()
+    .eq('user_id', userId)
+    .eq('target_id', targetId);
+
+  if (error) throw error;
+};
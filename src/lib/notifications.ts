@@ -0,0 +1,16 @@
+export const canNotify = () => 'Notification' in window && Notification.permission === 'granted';
+
+export const requestNotificationPermission = async () => {
+  if (!('Notification' in window) || Notification.permission !== 'default') return;
+  try {
+    await Notification.requestPermission();
+  } catch (error) {
+    console.error('Error requesting notification permission:', error);
+  }
+};
+
+// Message text stays out of notifications; the OS may log or sync them
+export const showMessageNotification = (title: string, body: string, tag: string) => {
+  if (!canNotify()) return;
+  new Notification(title, { body, tag, icon: '/favicon.ico' });
+};
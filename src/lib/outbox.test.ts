@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { enqueueMessage, flushOutbox, getOutbox, type OutboxMessage } from './outbox';
+
+const { insert } = vi.hoisted(() => ({ insert: vi.fn() }));
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: { from: () => ({ insert }) } }));
+
+const message = (content: string): OutboxMessage => ({
+  sender_id: 'me',
+  receiver_id: 'friend',
+  conversation_id: null,
+  content,
+  key_epoch: 0,
+  reply_to_id: null,
+});
+
+const offline = { error: { message: 'Failed to fetch' } };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  localStorage.clear();
+  insert.mockReset();
+});
+
+afterEach(() => {
+  vi.clearAllTimers();
+  vi.useRealTimers();
+});
+
+describe('outbox', () => {
+  it('sends a queued message and removes it', async () => {
+    insert.mockResolvedValue({ error: null });
+
+    const entry = enqueueMessage('me', message('hello'));
+    await flushOutbox('me');
+
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ id: entry.id, content: 'hello' }));
+    expect(getOutbox('me')).toEqual([]);
+  });
+
+  it('retries a connectivity failure with the same id after a backoff', async () => {
+    insert.mockResolvedValueOnce(offline).mockResolvedValue({ error: null });
+
+    const entry = enqueueMessage('me', message('hello'));
+    await flushOutbox('me');
+
+    expect(getOutbox('me')).toEqual([expect.objectContaining({ status: 'pending', attempts: 1 })]);
+    expect(getOutbox('me')[0].next_attempt_at).toBeGreaterThan(Date.now());
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await flushOutbox('me');
+
+    expect(insert).toHaveBeenCalledTimes(2);
+    expect(insert.mock.calls.map(([row]) => row.id)).toEqual([entry.id, entry.id]);
+    expect(getOutbox('me')).toEqual([]);
+  });
+
+  it('treats a duplicate id as already sent', async () => {
+    insert.mockResolvedValue({ error: { code: '23505', message: 'duplicate key value' } });
+
+    enqueueMessage('me', message('hello'));
+    await flushOutbox('me');
+
+    expect(getOutbox('me')).toEqual([]);
+  });
+
+  it('fails without retrying on data and permission errors', async () => {
+    insert
+      .mockResolvedValueOnce({ error: { code: '23514', message: 'violates check constraint' } })
+      .mockResolvedValueOnce({ error: { code: '42501', message: 'new row violates row-level security policy' } });
+
+    enqueueMessage('me', message('first'));
+    enqueueMessage('me', message('second'));
+    await flushOutbox('me');
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(insert).toHaveBeenCalledTimes(2);
+    expect(getOutbox('me')).toEqual([
+      expect.objectContaining({ content: 'first', status: 'failed', error: 'violates check constraint' }),
+      expect.objectContaining({ content: 'second', status: 'failed', error: "You can't send messages to this user" }),
+    ]);
+  });
+
+  it('keeps later messages waiting behind one that is retrying', async () => {
+    insert.mockResolvedValue(offline);
+
+    enqueueMessage('me', message('first'));
+    enqueueMessage('me', message('second'));
+    await flushOutbox('me');
+
+    expect(insert).toHaveBeenCalledTimes(1);
+    expect(getOutbox('me').map(entry => entry.status)).toEqual(['pending', 'pending']);
+  });
+
+  it('stops retrying automatically after repeated connectivity failures', async () => {
+    insert.mockResolvedValue(offline);
+
+    enqueueMessage('me', message('hello'));
+    await flushOutbox('me');
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+    expect(insert).toHaveBeenCalledTimes(8);
+    expect(getOutbox('me')).toEqual([
+      expect.objectContaining({ status: 'failed', attempts: 8, error: 'Failed to fetch' }),
+    ]);
+  });
+});
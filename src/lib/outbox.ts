@@ -0,0 +1,276 @@
+import { supabase } from '@/integrations/supabase/client';
+import { isBlockedInsertError } from './blocks';
+import { EncryptionError, getConversationKey, openMessage, sealMessage, type KeyResolver } from './encryption';
+import { getGroupKey, getGroupSendEpoch } from './group-encryption';
+import { fetchGroupMembers } from './groups';
+import { getSendEpoch } from './key-rotation';
+import type { Message } from './messages';
+
+const OUTBOX_STORAGE_PREFIX = 'chatvibe-outbox-';
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+// After this many transient failures the message waits for a manual retry
+const MAX_AUTOMATIC_ATTEMPTS = 8;
+
+export type OutboxStatus = 'pending' | 'failed';
+
+// Only ciphertext is queued; the row is inserted exactly as stored. The id is
+// generated here so a retry after a lost response can't insert the message twice.
+export interface OutboxEntry {
+  id: string;
+  sender_id: string;
+  receiver_id: string | null;
+  conversation_id: string | null;
+  content: string;
+  key_epoch: number;
+  reply_to_id: string | null;
+  created_at: string;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: number;
+  error?: string;
+  // Sealed offline under the newest epoch the chat had seen, which still has to
+  // be checked with the server
+  provisional?: boolean;
+}
+
+export type OutboxMessage = Pick<
+  OutboxEntry,
+  'sender_id' | 'receiver_id' | 'conversation_id' | 'content' | 'key_epoch' | 'reply_to_id' | 'provisional'
+>;
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Map<string, Set<OutboxListener>>();
+const flushing = new Map<string, Promise<void>>();
+const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+export const getOutbox = (userId: string): OutboxEntry[] => {
+  const stored = localStorage.getItem(OUTBOX_STORAGE_PREFIX + userId);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored) as OutboxEntry[];
+  } catch (error) {
+    console.error('Stored outbox is corrupt:', error);
+    return [];
+  }
+};
+
+const notify = (userId: string, entries: OutboxEntry[]) => {
+  listeners.get(userId)?.forEach(listener => listener(entries));
+};
+
+const saveOutbox = (userId: string, entries: OutboxEntry[]) => {
+  if (entries.length === 0) {
+    localStorage.removeItem(OUTBOX_STORAGE_PREFIX + userId);
+  } else {
+    localStorage.setItem(OUTBOX_STORAGE_PREFIX + userId, JSON.stringify(entries));
+  }
+  notify(userId, entries);
+};
+
+const updateEntry = (userId: string, id: string, changes: Partial<OutboxEntry>) => {
+  saveOutbox(userId, getOutbox(userId).map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+};
+
+const removeEntry = (userId: string, id: string) => {
+  saveOutbox(userId, getOutbox(userId).filter(entry => entry.id !== id));
+};
+
+export const subscribeToOutbox = (userId: string, listener: OutboxListener) => {
+  let userListeners = listeners.get(userId);
+  if (!userListeners) {
+    userListeners = new Set();
+    listeners.set(userId, userListeners);
+  }
+  userListeners.add(listener);
+  return () => {
+    userListeners.delete(listener);
+  };
+};
+
+// Shaped like a stored row so the chat can render it before the server has it
+export const toOptimisticMessage = (entry: OutboxEntry): Message => ({
+  id: entry.id,
+  sender_id: entry.sender_id,
+  receiver_id: entry.receiver_id,
+  conversation_id: entry.conversation_id,
+  content: entry.content,
+  key_epoch: entry.key_epoch,
+  created_at: entry.created_at,
+  edited_at: null,
+  deleted_at: null,
+  reply_to_id: entry.reply_to_id,
+});
+
+// Data and permission errors (Postgres classes 22, 23 and 42) and encryption
+// failures will fail the same way every time; anything else is treated as a
+// connectivity problem
+const isPermanentError = (error: { code?: string }) =>
+  error instanceof EncryptionError || /^(22|23|42)/.test(error.code ?? '');
+
+const describeError = (error: { code?: string; message?: string }) => {
+  if (isBlockedInsertError(error)) return "You can't send messages to this user";
+  if (error instanceof EncryptionError) return `Couldn't encrypt message: ${error.message}`;
+  return error.message || 'Failed to send message';
+};
+
+// Picks the epoch a send would use now, the same way the chat does online
+const resolveSendKey = async (entry: OutboxEntry): Promise<{ keyEpoch: number; resolveKey: KeyResolver }> => {
+  if (entry.conversation_id) {
+    const context = { conversationId: entry.conversation_id, userId: entry.sender_id };
+    const members = await fetchGroupMembers(entry.conversation_id);
+    return {
+      keyEpoch: await getGroupSendEpoch(context, members.map(member => member.user_id)),
+      resolveKey: (epoch) => getGroupKey(context, epoch),
+    };
+  }
+  const context = { userId: entry.sender_id, peerId: entry.receiver_id ?? '' };
+  return {
+    keyEpoch: await getSendEpoch(context),
+    resolveKey: (epoch) => getConversationKey(context, epoch),
+  };
+};
+
+// Reseals a message queued offline if the conversation has moved to another
+// epoch since, so it never goes out under a key that was rotated away
+const confirmEpoch = async (entry: OutboxEntry): Promise<Pick<OutboxEntry, 'content' | 'key_epoch'>> => {
+  const { keyEpoch, resolveKey } = await resolveSendKey(entry);
+  if (keyEpoch === entry.key_epoch) return entry;
+
+  const decrypted = await openMessage(entry.content, resolveKey);
+  if (decrypted.status !== 'ok') throw new EncryptionError('The queued message could not be read back');
+  const body = { text: decrypted.text, attachments: decrypted.attachments, previews: decrypted.previews };
+  const resealed = await sealMessage(body, resolveKey, keyEpoch);
+  return { content: resealed.content, key_epoch: resealed.keyEpoch };
+};
+
+const sendEntry = async (userId: string, entry: OutboxEntry) => {
+  let sendable = entry;
+  if (entry.provisional) {
+    sendable = { ...entry, ...(await confirmEpoch(entry)), provisional: false };
+    // Saved so a retry doesn't check (and count) the message again
+    updateEntry(userId, entry.id, { content: sendable.content, key_epoch: sendable.key_epoch, provisional: false });
+  }
+
+  const { error } = await supabase.from('direct_messages').insert({
+    id: sendable.id,
+    sender_id: sendable.sender_id,
+    receiver_id: sendable.receiver_id,
+    conversation_id: sendable.conversation_id,
+    content: sendable.content,
+    key_epoch: sendable.key_epoch,
+    reply_to_id: sendable.reply_to_id,
+  });
+  return error;
+};
+
+const scheduleRetry = (userId: string, delay: number) => {
+  clearTimeout(retryTimers.get(userId));
+  retryTimers.set(userId, setTimeout(() => {
+    retryTimers.delete(userId);
+    flushOutbox(userId);
+  }, delay));
+};
+
+const runFlush = async (userId: string) => {
+  for (;;) {
+    const entry = getOutbox(userId).find(candidate => candidate.status === 'pending');
+    if (!entry || !navigator.onLine) return;
+
+    const wait = entry.next_attempt_at - Date.now();
+    if (wait > 0) {
+      scheduleRetry(userId, wait);
+      return;
+    }
+
+    let error: { code?: string; message?: string } | null;
+    try {
+      error = await sendEntry(userId, entry);
+    } catch (caught) {
+      // Rejections from the key lookups are Postgres errors, encryption errors or
+      // network failures, all of which the checks below understand
+      error = (caught ?? {}) as { code?: string; message?: string };
+    }
+
+    // A duplicate id means an earlier attempt (or another tab) already got it through
+    if (!error || error.code === '23505') {
+      removeEntry(userId, entry.id);
+      continue;
+    }
+
+    console.error('Error sending queued message:', error);
+    const attempts = entry.attempts + 1;
+    if (isPermanentError(error) || attempts >= MAX_AUTOMATIC_ATTEMPTS) {
+      updateEntry(userId, entry.id, { status: 'failed', attempts, error: describeError(error) });
+      continue;
+    }
+
+    // Later messages wait behind this one so the conversation stays in order
+    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+    updateEntry(userId, entry.id, { attempts, next_attempt_at: Date.now() + delay });
+    scheduleRetry(userId, delay);
+    return;
+  }
+};
+
+// Sends pending messages oldest first. Concurrent calls share one run.
+export const flushOutbox = (userId: string): Promise<void> => {
+  let flush = flushing.get(userId);
+  if (!flush) {
+    flush = runFlush(userId)
+      .catch((error) => console.error('Error flushing outbox:', error))
+      .finally(() => flushing.delete(userId));
+    flushing.set(userId, flush);
+  }
+  return flush;
+};
+
+export const enqueueMessage = (userId: string, message: OutboxMessage): OutboxEntry => {
+  const entry: OutboxEntry = {
+    ...message,
+    id: crypto.randomUUID(),
+    created_at: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: 0,
+  };
+  saveOutbox(userId, [...getOutbox(userId), entry]);
+  flushOutbox(userId);
+  return entry;
+};
+
+export const retryMessage = (userId: string, id: string) => {
+  updateEntry(userId, id, { status: 'pending', attempts: 0, next_attempt_at: 0, error: undefined });
+  flushOutbox(userId);
+};
+
+export const discardMessage = (userId: string, id: string) => {
+  removeEntry(userId, id);
+};
+
+// Retries as soon as the browser is back online, and keeps tabs in sync since
+// they share the stored queue
+export const startOutbox = (userId: string) => {
+  const handleOnline = () => {
+    // Waiting out a backoff makes no sense once the connection is back
+    saveOutbox(userId, getOutbox(userId).map(entry =>
+      entry.status === 'pending' ? { ...entry, next_attempt_at: 0 } : entry
+    ));
+    flushOutbox(userId);
+  };
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === OUTBOX_STORAGE_PREFIX + userId) notify(userId, getOutbox(userId));
+  };
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('storage', handleStorage);
+  flushOutbox(userId);
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('storage', handleStorage);
+    clearTimeout(retryTimers.get(userId));
+    retryTimers.delete(userId);
+  };
+};
@@ -0,0 +1,173 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { recordLastSeen, recordLastSeenOnExit } from './last-seen';
+
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+// lastSeenAt is set when this client saw the user's last tab leave
+export interface UserPresence {
+  status: PresenceStatus;
+  lastSeenAt?: string;
+}
+
+// One entry per tab. A topic only ever holds its owner's tabs, so tabs and
+// devices are grouped by topic rather than by presence key. No timestamps:
+// when someone was online is for the last seen setting to reveal.
+interface PresenceMeta {
+  tab_id: string;
+  status: Exclude<PresenceStatus, 'offline'>;
+}
+
+// Joined by the owner's tabs to track and by anyone watching them. Both the
+// owner and the watchers share one channel per topic.
+interface PresenceTopic {
+  channel: RealtimeChannel;
+  refs: number;
+  subscribed: boolean;
+  onSubscribed?: () => void;
+}
+
+const OFFLINE: UserPresence = { status: 'offline' };
+
+let presences = new Map<string, UserPresence>();
+const topics = new Map<string, PresenceTopic>();
+const listeners = new Set<() => void>();
+let leave: (() => Promise<void>) | null = null;
+
+export const getPresence = (userId: string | undefined): UserPresence =>
+  (userId && presences.get(userId)) || OFFLINE;
+
+export const subscribeToPresence = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Online if any tab is in the foreground, away if all of them are hidden
+const aggregateStatus = (metas: PresenceMeta[]): PresenceStatus => {
+  if (metas.some(meta => meta.status === 'online')) return 'online';
+  return metas.length > 0 ? 'away' : 'offline';
+};
+
+const getMetas = (channel: RealtimeChannel) => Object.values(channel.presenceState<PresenceMeta>()).flat();
+
+// Unchanged users keep the same object so only their subscribers re-render
+const applySync = (userId: string, metas: PresenceMeta[]) => {
+  const status = aggregateStatus(metas);
+  const previous = presences.get(userId);
+  if (previous?.status === status) return;
+
+  const wentOffline = status === 'offline' && previous && previous.status !== 'offline';
+  presences = new Map(presences).set(userId, wentOffline ? { status, lastSeenAt: new Date().toISOString() } : { status });
+  notify();
+};
+
+// Each user's presence is a private topic of its own. Realtime checks the
+// viewer against row-level security on join, so only those allowed to see the
+// user's last seen (never anyone they blocked) see them come and go, and only
+// the owner may track on it.
+const retainTopic = (userId: string): PresenceTopic => {
+  let topic = topics.get(userId);
+  if (!topic) {
+    const channel = supabase.channel(`presence:${userId}`, { config: { private: true } });
+    const created: PresenceTopic = { channel, refs: 0, subscribed: false };
+    channel
+      .on('presence', { event: 'sync' }, () => applySync(userId, getMetas(channel)))
+      .subscribe((status) => {
+        created.subscribed = status === 'SUBSCRIBED';
+        if (created.subscribed) created.onSubscribed?.();
+      });
+    topics.set(userId, created);
+    topic = created;
+  }
+  topic.refs++;
+  return topic;
+};
+
+const releaseTopic = async (userId: string) => {
+  const topic = topics.get(userId);
+  if (!topic || --topic.refs > 0) return;
+  topics.delete(userId);
+  await topic.channel.unsubscribe();
+  if (!presences.has(userId)) return;
+  presences = new Map(presences);
+  presences.delete(userId);
+  notify();
+};
+
+// Keeps the user's presence in the store while something is showing it
+export const watchPresence = (userId: string) => {
+  retainTopic(userId);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    releaseTopic(userId);
+  };
+};
+
+// Last seen is the only thing presence writes to the database. Who can read it
+// back is decided server-side by the user's last seen visibility.
+const saveLastSeen = (userId: string) =>
+  recordLastSeen(userId).catch((error) => {
+    console.error('Error recording last seen:', error);
+  });
+
+// Tracks this tab on the user's own presence topic. Returns a cleanup that
+// stops tracking and leaves it.
+export const joinPresence = (userId: string) => {
+  const tabId = crypto.randomUUID();
+  const topic = retainTopic(userId);
+  const { channel } = topic;
+
+  const track = () => channel.track({
+    tab_id: tabId,
+    status: document.hidden ? 'away' : 'online',
+  } satisfies PresenceMeta);
+
+  const isLastTab = () => getMetas(channel).every(meta => meta.tab_id === tabId);
+
+  topic.onSubscribed = track;
+  if (topic.subscribed) track();
+
+  const handleVisibilityChange = () => {
+    if (topic.subscribed) track();
+  };
+  // Kept current so closing the last tab, which is the user going offline, can
+  // record it without waiting on anything
+  let accessToken: string | null = null;
+  const { data: { subscription: authSubscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    accessToken = session?.access_token ?? null;
+  });
+
+  const handlePageHide = () => {
+    if (isLastTab() && accessToken) recordLastSeenOnExit(userId, accessToken);
+  };
+
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('pagehide', handlePageHide);
+
+  let left = false;
+  const cleanup = async () => {
+    if (left) return;
+    left = true;
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    window.removeEventListener('pagehide', handlePageHide);
+    authSubscription.unsubscribe();
+    const last = isLastTab();
+    if (topic.onSubscribed === track) topic.onSubscribed = undefined;
+    await channel.untrack();
+    await releaseTopic(userId);
+    if (last) await saveLastSeen(userId);
+    // A newer join (a remount) is the one sign-out has to leave from here
+    if (leave === cleanup) leave = null;
+  };
+  leave = cleanup;
+  return cleanup;
+};
+
+// Used on sign-out so last_seen is written while the session is still valid
+export const leavePresence = () => leave?.() ?? Promise.resolve();
@@ -0,0 +1,71 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+// Reactions added on this device have no id until the realtime echo arrives
+export interface Reaction {
+  id?: string;
+  message_id: string;
+  user_id: string;
+  emoji: string;
+  created_at?: string;
+}
+
+export interface ReactionSummary {
+  emoji: string;
+  userIds: string[];
+}
+
+export const fetchReactions = async (messageIds: string[]): Promise<Reaction[]> => {
+  if (messageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('message_reactions')
+    .select('*')
+    .in('message_id', messageIds)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const addReaction = async (messageId: string, userId: string, emoji: string) => {
+  const { error } = await supabase
+    .from('message_reactions')
+    .upsert(
+      { message_id: messageId, user_id: userId, emoji },
+      { onConflict: 'message_id,user_id,emoji', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+};
+
+export const removeReaction = async (messageId: string, userId: string, emoji: string) => {
+  const { error } = await supabase
+    .from('message_reactions')
+    .delete()
+    .eq('message_id', messageId)
+    .eq('user_id', userId)
+    .eq('emoji', emoji);
+
+  if (error) throw error;
+};
+
+// Groups by emoji in the order each was first used
+export const summarizeReactions = (reactions: Reaction[]): ReactionSummary[] => {
+  const byEmoji = new Map<string, string[]>();
+  for (const reaction of reactions) {
+    byEmoji.set(reaction.emoji, [...(byEmoji.get(reaction.emoji) ?? []), reaction.user_id]);
+  }
+  return [...byEmoji].map(([emoji, userIds]) => ({ emoji, userIds }));
+};
+
+export const isSameReaction = (a: Reaction, b: Reaction) =>
+  a.message_id === b.message_id && a.user_id === b.user_id && a.emoji === b.emoji;
+
+// Realtime deletes only carry the id, so the message has to be looked up
+export const removeReactionById = (reactions: Record<string, Reaction[]>, id: string) => {
+  const messageId = Object.keys(reactions).find(key => reactions[key].some(reaction => reaction.id === id));
+  if (!messageId) return reactions;
+  return { ...reactions, [messageId]: reactions[messageId].filter(reaction => reaction.id !== id) };
+};
@@ -0,0 +1,68 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type DeliveryState = 'sent' | 'delivered' | 'read';
+
+export interface MessageReceipt {
+  message_id: string;
+  user_id: string;
+  delivered_at: string;
+  read_at: string | null;
+}
+
+export const getReadReceiptsEnabled = async (userId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('read_receipts')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.read_receipts ?? true;
+};
+
+export const setReadReceiptsEnabled = async (userId: string, enabled: boolean) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ read_receipts: enabled })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+export const fetchReceipts = async (messageIds: string[]): Promise<MessageReceipt[]> => {
+  if (messageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('message_receipts')
+    .select('*')
+    .in('message_id', messageIds);
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Both are no-ops server-side for messages the caller sent or can't see, and
+// marking read is ignored while the caller has read receipts turned off
+export const markMessagesDelivered = async (messageIds: string[]) => {
+  if (messageIds.length === 0) return;
+  const { error } = await supabase.rpc('mark_messages_delivered', { _message_ids: messageIds });
+  if (error) throw error;
+};
+
+export const markMessagesRead = async (messageIds: string[]) => {
+  if (messageIds.length === 0) return;
+  const { error } = await supabase.rpc('mark_messages_read', { _message_ids: messageIds });
+  if (error) throw error;
+};
+
+// A message counts as delivered or read once every recipient has got that far,
+// so group messages only turn blue when the whole group has read them
+export const getDeliveryState = (
+  receipts: MessageReceipt[],
+  recipientCount: number,
+  showRead: boolean
+): DeliveryState => {
+  if (recipientCount === 0 || receipts.length < recipientCount) return 'sent';
+  if (showRead && receipts.every(receipt => receipt.read_at)) return 'read';
+  return 'delivered';
+};
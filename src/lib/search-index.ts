@@ -0,0 +1,265 @@
+import { deriveDeviceSecret, fromBase64, toBase64, type DecryptResult } from './encryption';
+import { getSummaryTarget } from './conversation-summaries';
+import { openDatabase, promisifyRequest, transactionDone } from './idb';
+import { decryptStoredMessage, fetchMessagesAfter, type Message, type MessageCursor } from './messages';
+
+export const MIN_QUERY_LENGTH = 2;
+export const MAX_SEARCH_RESULTS = 50;
+
+const DATABASE_VERSION = 1;
+const TOKEN_KEY_INFO = 'chatvibe-search-tokens-v1';
+const ENTRY_KEY_INFO = 'chatvibe-search-entries-v1';
+// Words are indexed by every prefix up to this length so partial words match;
+// longer query words are narrowed down after decrypting the candidates
+const MAX_PREFIX_LENGTH = 12;
+const SYNC_PAGE_SIZE = 200;
+
+export interface SearchResult {
+  messageId: string;
+  targetId: string;
+  isGroup: boolean;
+  senderId: string;
+  text: string;
+  createdAt: string;
+}
+
+// Tokens are keyed hashes and everything readable is encrypted, so the
+// database on disk reveals only how many messages share a word and when they were sent
+interface StoredEntry {
+  id: string;
+  createdAt: string;
+  tokens: string[];
+  nonce: string;
+  ct: string;
+}
+
+type EntryPayload = Omit<SearchResult, 'messageId' | 'createdAt'>;
+
+interface SearchIndex {
+  db: IDBDatabase;
+  tokenKey: CryptoKey;
+  entryKey: CryptoKey;
+  tokenHashes: Map<string, Promise<string>>;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const indexes = new Map<string, Promise<SearchIndex>>();
+const syncs = new Map<string, Promise<void>>();
+
+const normalize = (text: string) => text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+const getWords = (text: string) => normalize(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+
+const getIndexTokens = (text: string) => {
+  const tokens = new Set<string>();
+  for (const word of getWords(text)) {
+    for (let length = MIN_QUERY_LENGTH; length <= Math.min(word.length, MAX_PREFIX_LENGTH); length++) {
+      tokens.add(word.slice(0, length));
+    }
+  }
+  return tokens;
+};
+
+const hashToken = (index: SearchIndex, token: string) => {
+  let hash = index.tokenHashes.get(token);
+  if (!hash) {
+    hash = crypto.subtle.sign('HMAC', index.tokenKey, encoder.encode(token))
+      .then(signature => toBase64(new Uint8Array(signature).slice(0, 16)));
+    if (index.tokenHashes.size > 50000) index.tokenHashes.clear();
+    index.tokenHashes.set(token, hash);
+  }
+  return hash;
+};
+
+const openSearchIndex = (userId: string): Promise<SearchIndex> => {
+  let index = indexes.get(userId);
+  if (!index) {
+    index = (async () => {
+      const [tokenSecret, entrySecret] = await Promise.all([
+        deriveDeviceSecret(userId, TOKEN_KEY_INFO),
+        deriveDeviceSecret(userId, ENTRY_KEY_INFO),
+      ]);
+      const tokenKey = await crypto.subtle.importKey('raw', tokenSecret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+      const entryKey = await crypto.subtle.importKey('raw', entrySecret, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+
+      const db = await openDatabase(`chatvibe-search-${userId}`, DATABASE_VERSION, (database) => {
+        const entries = database.createObjectStore('entries', { keyPath: 'id' });
+        entries.createIndex('tokens', 'tokens', { multiEntry: true });
+        database.createObjectStore('meta');
+      });
+
+      const searchIndex: SearchIndex = { db, tokenKey, entryKey, tokenHashes: new Map() };
+
+      // A new key pair (a fresh device setup or a restored backup) can't read
+      // the old index, so start over
+      const keyCheck = await hashToken(searchIndex, 'key-check');
+      const meta = db.transaction('meta', 'readonly').objectStore('meta');
+      if (await promisifyRequest(meta.get('keyCheck')) !== keyCheck) {
+        const reset = db.transaction(['entries', 'meta'], 'readwrite');
+        reset.objectStore('entries').clear();
+        reset.objectStore('meta').clear();
+        reset.objectStore('meta').put(keyCheck, 'keyCheck');
+        await transactionDone(reset);
+      }
+
+      return searchIndex;
+    })();
+    indexes.set(userId, index);
+    index.catch(() => indexes.delete(userId));
+  }
+  return index;
+};
+
+// Deleted and unreadable messages return null and are dropped from the index
+const getIndexableText = (message: Message, result: DecryptResult) => {
+  if (message.deleted_at) return null;
+  if (result.status === 'legacy') return result.text;
+  if (result.status !== 'ok') return null;
+  return [
+    result.text,
+    ...(result.attachments ?? []).map(attachment => attachment.name),
+    ...(result.previews ?? []).map(preview => preview.title),
+  ].join(' ');
+};
+
+const createEntry = async (
+  index: SearchIndex,
+  userId: string,
+  message: Message,
+  text: string
+): Promise<StoredEntry> => {
+  const payload: EntryPayload = {
+    targetId: getSummaryTarget(message, userId),
+    isGroup: !!message.conversation_id,
+    senderId: message.sender_id,
+    text,
+  };
+  const nonce = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce, additionalData: encoder.encode(message.id) },
+    index.entryKey,
+    encoder.encode(JSON.stringify(payload))
+  );
+
+  return {
+    id: message.id,
+    createdAt: message.created_at,
+    tokens: await Promise.all([...getIndexTokens(text)].map(token => hashToken(index, token))),
+    nonce: toBase64(nonce),
+    ct: toBase64(ciphertext),
+  };
+};
+
+const openEntry = async (index: SearchIndex, entry: StoredEntry): Promise<SearchResult> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(entry.nonce), additionalData: encoder.encode(entry.id) },
+    index.entryKey,
+    fromBase64(entry.ct)
+  );
+  const payload = JSON.parse(decoder.decode(plaintext)) as EntryPayload;
+  return { ...payload, messageId: entry.id, createdAt: entry.createdAt };
+};
+
+// Messages whose key isn't on this device yet are left alone so an earlier
+// readable copy of the entry isn't thrown away
+export const indexMessages = async (userId: string, items: { message: Message; result: DecryptResult }[]) => {
+  const updates = items.filter(({ result }) => result.status !== 'unknown-key');
+  if (updates.length === 0) return;
+
+  const index = await openSearchIndex(userId);
+  const entries = await Promise.all(updates.map(async ({ message, result }) => {
+    const text = getIndexableText(message, result);
+    return { id: message.id, entry: text?.trim() ? await createEntry(index, userId, message, text) : null };
+  }));
+
+  const transaction = index.db.transaction('entries', 'readwrite');
+  const store = transaction.objectStore('entries');
+  entries.forEach(({ id, entry }) => entry ? store.put(entry) : store.delete(id));
+  await transactionDone(transaction);
+};
+
+export const removeFromIndex = async (userId: string, messageIds: string[]) => {
+  if (messageIds.length === 0) return;
+  const index = await openSearchIndex(userId);
+  const transaction = index.db.transaction('entries', 'readwrite');
+  const store = transaction.objectStore('entries');
+  messageIds.forEach(id => store.delete(id));
+  await transactionDone(transaction);
+};
+
+// Newest matches first. Every query word has to match the start of a word in the message.
+export const searchMessages = async (userId: string, query: string, limit = MAX_SEARCH_RESULTS): Promise<SearchResult[]> => {
+  const words = [...new Set(getWords(query))].filter(word => word.length >= MIN_QUERY_LENGTH);
+  if (words.length === 0) return [];
+
+  const index = await openSearchIndex(userId);
+  const hashes = await Promise.all(words.map(word => hashToken(index, word.slice(0, MAX_PREFIX_LENGTH))));
+
+  const transaction = index.db.transaction('entries', 'readonly');
+  const store = transaction.objectStore('entries');
+  let candidates: Set<string> | null = null;
+  for (const hash of new Set(hashes)) {
+    const ids = await promisifyRequest(store.index('tokens').getAllKeys(IDBKeyRange.only(hash))) as string[];
+    candidates = new Set(candidates ? ids.filter(id => candidates.has(id)) : ids);
+    if (candidates.size === 0) return [];
+  }
+
+  const entries = (await Promise.all([...candidates].map(id => promisifyRequest(store.get(id)) as Promise<StoredEntry | undefined>)))
+    .filter((entry): entry is StoredEntry => !!entry)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const results: SearchResult[] = [];
+  for (const entry of entries) {
+    if (results.length >= limit) break;
+    const result = await openEntry(index, entry);
+    const messageWords = getWords(result.text);
+    if (words.every(word => messageWords.some(messageWord => messageWord.startsWith(word)))) {
+      results.push(result);
+    }
+  }
+  return results;
+};
+
+const runSync = async (userId: string) => {
+  const index = await openSearchIndex(userId);
+  const readMeta = index.db.transaction('meta', 'readonly').objectStore('meta');
+  let cursor = (await promisifyRequest(readMeta.get('syncCursor')) as MessageCursor | undefined) ?? null;
+
+  for (;;) {
+    const page = await fetchMessagesAfter(userId, cursor, SYNC_PAGE_SIZE);
+    const results = await Promise.all(page.messages.map(message => decryptStoredMessage(message, userId, false)));
+    await indexMessages(userId, page.messages.map((message, i) => ({ message, result: results[i] })));
+
+    cursor = page.cursor;
+    const writeMeta = index.db.transaction('meta', 'readwrite');
+    writeMeta.objectStore('meta').put(cursor, 'syncCursor');
+    await transactionDone(writeMeta);
+
+    if (!page.hasMore) break;
+  }
+};
+
+// Indexes every message sent since the last sync, oldest first, resuming where
+// it stopped. Concurrent calls share one run. Edits and deletions in chats that
+// aren't opened are picked up when they are.
+export const syncSearchIndex = (userId: string): Promise<void> => {
+  let sync = syncs.get(userId);
+  if (!sync) {
+    sync = runSync(userId).finally(() => syncs.delete(userId));
+    syncs.set(userId, sync);
+  }
+  return sync;
+};
+
+// Trims long messages to the part around the first matching word
+export const getMatchSnippet = (text: string, query: string, context = 40) => {
+  const words = getWords(query);
+  const normalized = normalize(text);
+  const positions = words
+    .map(word => normalized.search(new RegExp(`(^|[^\\p{L}\\p{N}])${word}`, 'u')))
+    .filter(position => position >= 0);
+  const start = positions.length > 0 ? Math.max(0, Math.min(...positions) - context) : 0;
+  const snippet = text.slice(start).replace(/\s+/g, ' ').trim();
+  return start > 0 ? `…${snippet}` : snippet;
+};
@@ -0,0 +1,135 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// How long one typing event keeps the indicator up if nothing follows it
+export const TYPING_EXPIRY_MS = 5000;
+// While typing continues, events go out at most this often; each one's expiry
+// outlasts the gap, so the indicator stays up between them
+const TYPING_THROTTLE_MS = 2000;
+// A sender can't keep someone's indicator up longer than this with one event
+const MAX_TYPING_EXPIRY_MS = 10000;
+
+// Who sent it is known from the topic, not the payload
+interface TypingEvent {
+  // Milliseconds from receipt. Relative, so clock differences don't matter;
+  // zero means the sender stopped.
+  expires_in: number;
+}
+
+export interface TypingTarget {
+  userId: string;
+  peerId?: string;
+  conversationId?: string;
+}
+
+export interface TypingChannel {
+  notifyTyping: () => void;
+  stopTyping: () => void;
+  // Everyone else in the conversation, whose typing this listens for
+  setParticipants: (userIds: string[]) => void;
+  leave: () => void;
+}
+
+// One topic per sender: "typing:group:<conversation id>:<sender id>" or
+// "typing:dm:<recipient id>:<sender id>"
+const getTypingTopic = ({ userId, peerId, conversationId }: TypingTarget, senderId: string) =>
+  conversationId
+    ? `typing:group:${conversationId}:${senderId}`
+    : `typing:dm:${senderId === userId ? peerId : userId}:${senderId}`;
+
+// Typing is sent as realtime broadcasts and never stored. The topics are
+// private: row-level security lets only the sender broadcast on their own
+// topic, and only the conversation's members who haven't blocked or been
+// blocked by the sender listen, so an event's sender is whoever owns the topic.
+export const joinTypingChannel = (
+  target: TypingTarget,
+  onChange: (typingUserIds: string[]) => void
+): TypingChannel => {
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const listening = new Map<string, RealtimeChannel>();
+  let lastSentAt = 0;
+  let subscribed = false;
+
+  const notify = () => onChange([...timers.keys()]);
+
+  const clearUser = (userId: string) => {
+    clearTimeout(timers.get(userId));
+    if (timers.delete(userId)) notify();
+  };
+
+  const handleTyping = (userId: string, { expires_in }: Partial<TypingEvent>) => {
+    const expiry = Math.min(Number(expires_in) || 0, MAX_TYPING_EXPIRY_MS);
+    if (expiry <= 0) {
+      clearUser(userId);
+      return;
+    }
+
+    const isNew = !timers.has(userId);
+    clearTimeout(timers.get(userId));
+    timers.set(userId, setTimeout(() => clearUser(userId), expiry));
+    if (isNew) notify();
+  };
+
+  const channel = supabase
+    .channel(getTypingTopic(target, target.userId), { config: { private: true, broadcast: { self: false } } })
+    .subscribe((status) => {
+      subscribed = status === 'SUBSCRIBED';
+    });
+
+  const listen = (userId: string) => supabase
+    .channel(getTypingTopic(target, userId), { config: { private: true } })
+    .on('broadcast', { event: 'typing' }, ({ payload }) => handleTyping(userId, payload as Partial<TypingEvent>))
+    .subscribe();
+
+  const send = (expiresIn: number) => {
+    if (!subscribed) return;
+    channel.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { expires_in: expiresIn } satisfies TypingEvent,
+    });
+  };
+
+  return {
+    notifyTyping: () => {
+      const now = Date.now();
+      if (now - lastSentAt < TYPING_THROTTLE_MS) return;
+      lastSentAt = now;
+      send(TYPING_EXPIRY_MS);
+    },
+    // Only sent if a typing event could still be showing
+    stopTyping: () => {
+      if (Date.now() - lastSentAt >= TYPING_EXPIRY_MS) return;
+      lastSentAt = 0;
+      send(0);
+    },
+    setParticipants: (userIds) => {
+      const others = userIds.filter(userId => userId !== target.userId);
+      listening.forEach((listener, userId) => {
+        if (others.includes(userId)) return;
+        listener.unsubscribe();
+        listening.delete(userId);
+        clearUser(userId);
+      });
+      others.forEach((userId) => {
+        if (!listening.has(userId)) listening.set(userId, listen(userId));
+      });
+    },
+    leave: () => {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      listening.forEach(listener => listener.unsubscribe());
+      listening.clear();
+      channel.unsubscribe();
+    },
+  };
+};
+
+// "Alice is typing", "Alice and Bob are typing", "Alice, Bob and 2 others are typing"
+export const describeTyping = (names: string[]) => {
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is typing`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing`;
+  if (names.length === 3) return `${names[0]}, ${names[1]} and ${names[2]} are typing`;
+  return `${names[0]}, ${names[1]} and ${names.length - 2} others are typing`;
+};
@@ -0,0 +1,93 @@
+import { supabase } from '@/integrations/supabase/client';
+import { fetchPublicKey, loadLocalKeyPair, toBase64 } from '@/lib/encryption';
+
+export type VerificationState = 'unverified' | 'verified' | 'key-changed';
+
+const SAFETY_NUMBER_GROUPS = 12;
+const SAFETY_NUMBER_VERSION = 'chatvibe-safety-number-v1';
+
+const encoder = new TextEncoder();
+
+// Only the curve coordinates identify a key; JWK metadata like key_ops can vary
+const canonicalKey = (key: JsonWebKey) => JSON.stringify({ crv: key.crv, kty: key.kty, x: key.x, y: key.y });
+
+export const getPublicKeyHash = async (key: JsonWebKey): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(canonicalKey(key)));
+  return toBase64(digest);
+};
+
+const getKeys = async (userId: string, contactId: string) => {
+  const ownKey = loadLocalKeyPair(userId)?.publicKey;
+  if (!ownKey) throw new Error('No private key on this device');
+
+  const contactKey = await fetchPublicKey(contactId, true);
+  if (!contactKey) throw new Error('Contact has not published a public key');
+
+  return { ownKey, contactKey };
+};
+
+// Both sides compute the same number because the inputs are ordered by user id
+export const getSafetyNumber = async (userId: string, contactId: string): Promise<string> => {
+  const { ownKey, contactKey } = await getKeys(userId, contactId);
+  const entries = [
+    `${userId}:${canonicalKey(ownKey)}`,
+    `${contactId}:${canonicalKey(contactKey)}`,
+  ].sort();
+
+  const digest = new Uint8Array(
+    await crypto.subtle.digest('SHA-512', encoder.encode([SAFETY_NUMBER_VERSION, ...entries].join('|')))
+  );
+
+  const groups: string[] = [];
+  for (let i = 0; i < SAFETY_NUMBER_GROUPS; i++) {
+    const chunk = digest.slice(i * 5, i * 5 + 5);
+    const value = chunk.reduce((acc, byte) => acc * 256 + byte, 0);
+    groups.push((value % 100000).toString().padStart(5, '0'));
+  }
+  return groups.join(' ');
+};
+
+export const getVerificationState = async (userId: string, contactId: string): Promise<VerificationState> => {
+  const { data, error } = await supabase
+    .from('contact_verifications')
+    .select('verified_key_hash')
+    .eq('user_id', userId)
+    .eq('contact_id', contactId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return 'unverified';
+
+  const contactKey = await fetchPublicKey(contactId, true);
+  if (!contactKey) return 'key-changed';
+
+  return (await getPublicKeyHash(contactKey)) === data.verified_key_hash ? 'verified' : 'key-changed';
+};
+
+export const markContactVerified = async (userId: string, contactId: string) => {
+  const { contactKey } = await getKeys(userId, contactId);
+
+  const { error } = await supabase
+    .from('contact_verifications')
+    .upsert(
+      {
+        user_id: userId,
+        contact_id: contactId,
+        verified_key_hash: await getPublicKeyHash(contactKey),
+        verified_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,contact_id' }
+    );
+
+  if (error) throw error;
+};
+
+export const clearContactVerification = async (userId: string, contactId: string) => {
+  const { error } = await supabase
+    .from('contact_verifications')
+    .delete()
+    .eq('user_id', userId)
+    .eq('contact_id', contactId);
+
+  if (error) throw error;
+};
@@ -2,10 +2,14 @@ import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { AuthForm } from "@/components/auth/AuthForm";
 import { ChatLayout } from "@/components/chat/ChatLayout";
+import { Button } from "@/components/ui/button";
+import { checkUserKeys } from "@/lib/encryption";
 
 const Index = () => {
   const [user, setUser] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [keyStatus, setKeyStatus] = useState<'checking' | 'restore' | 'ready' | 'error'>('checking');
+  const [keyCheck, setKeyCheck] = useState(0);
 
   useEffect(() => {
     // Get initial session
@@ -25,7 +29,31 @@ const Index = () => {
     return () => subscription.unsubscribe();
   }, []);
 
-  if (loading) {
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    // A browser without the published key offers a restore first. If the check
+    // fails we can't tell, and carrying on could replace the key, so it waits
+    // for a retry instead.
+    setKeyStatus('checking');
+    checkUserKeys(userId)
+      .then((status) => {
+        if (!cancelled) setKeyStatus(status);
+      })
+      .catch((error) => {
+        console.error('Error checking encryption keys:', error);
+        if (!cancelled) setKeyStatus('error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, keyCheck]);
+
+  if (loading || (user && keyStatus === 'checking')) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="text-center">
@@ -40,6 +68,21 @@ const Index = () => {
     return <AuthForm />;
   }
 
+  if (keyStatus === 'error') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center space-y-4">
+          <p className="text-muted-foreground">Couldn't check your encryption keys</p>
+          <Button onClick={() => setKeyCheck(check => check + 1)}>Try again</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (keyStatus === 'restore') {
+    return <AuthForm keyRestoreUserId={user.id} onKeyRestoreComplete={() => setKeyStatus('ready')} />;
+  }
+
   return <ChatLayout currentUser={user} />;
 };
 
@@ -0,0 +1,23 @@
+-- Public halves of each user's long-term ECDH key pair. Clients combine their own
+-- private key with a contact's public key to agree on a per-conversation key.
+CREATE TABLE public.user_keys (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  public_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.user_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public keys are viewable by authenticated users"
+  ON public.user_keys FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can publish their own public key"
+  ON public.user_keys FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can replace their own public key"
+  ON public.user_keys FOR UPDATE
+  USING (auth.uid() = user_id);
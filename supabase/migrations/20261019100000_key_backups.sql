@@ -0,0 +1,29 @@
+-- Passphrase-wrapped copies of each user's private key. The server only ever sees
+-- the wrapped blob plus the PBKDF2 parameters needed to unwrap it client-side.
+CREATE TABLE public.key_backups (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL,
+  salt TEXT NOT NULL,
+  iv TEXT NOT NULL,
+  iterations INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.key_backups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own key backup"
+  ON public.key_backups FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own key backup"
+  ON public.key_backups FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can replace their own key backup"
+  ON public.key_backups FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own key backup"
+  ON public.key_backups FOR DELETE
+  USING (auth.uid() = user_id);
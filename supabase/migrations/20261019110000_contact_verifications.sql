@@ -0,0 +1,28 @@
+-- Records which public key a user confirmed for each contact, so the client can
+-- tell a verified contact apart from one whose key changed after verification.
+CREATE TABLE public.contact_verifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  verified_key_hash TEXT NOT NULL,
+  verified_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (user_id, contact_id)
+);
+
+ALTER TABLE public.contact_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own verifications"
+  ON public.contact_verifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can verify contacts"
+  ON public.contact_verifications FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own verifications"
+  ON public.contact_verifications FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own verifications"
+  ON public.contact_verifications FOR DELETE
+  USING (auth.uid() = user_id);
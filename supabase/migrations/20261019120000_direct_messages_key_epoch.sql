@@ -0,0 +1,7 @@
+-- Records which ratchet epoch's key encrypted each message. Existing rows were
+-- encrypted with the root conversation key, which is epoch 0.
+ALTER TABLE public.direct_messages
+  ADD COLUMN key_epoch INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX direct_messages_key_epoch_idx
+  ON public.direct_messages (sender_id, receiver_id, key_epoch);
@@ -0,0 +1,8 @@
+-- Senders rewrite their own rows when legacy messages are re-encrypted under
+-- per-conversation keys.
+DROP POLICY IF EXISTS "Users can update their own messages" ON public.direct_messages;
+
+CREATE POLICY "Users can update their own messages"
+  ON public.direct_messages FOR UPDATE
+  USING (auth.uid() = sender_id)
+  WITH CHECK (auth.uid() = sender_id);
@@ -0,0 +1,132 @@
+-- Group conversations. Group messages live in direct_messages alongside one-to-one
+-- messages: a row either has a receiver_id (direct) or a conversation_id (group).
+CREATE TABLE public.conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.conversation_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  joined_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (conversation_id, user_id)
+);
+
+-- The group key for each epoch, wrapped separately for every member with the
+-- pairwise key between the member and whoever distributed it.
+CREATE TABLE public.conversation_keys (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  key_epoch INTEGER NOT NULL,
+  member_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  wrapped_by UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (conversation_id, key_epoch, member_id)
+);
+
+ALTER TABLE public.direct_messages
+  ALTER COLUMN receiver_id DROP NOT NULL,
+  ADD COLUMN conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE,
+  ADD CONSTRAINT direct_messages_target_check
+    CHECK ((receiver_id IS NULL) <> (conversation_id IS NULL));
+
+CREATE INDEX direct_messages_conversation_id_idx
+  ON public.direct_messages (conversation_id, created_at);
+
+-- SECURITY DEFINER so policies on conversation_members can consult it without recursing
+CREATE OR REPLACE FUNCTION public.conversation_role(_conversation_id UUID, _user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.conversation_members
+  WHERE conversation_id = _conversation_id AND user_id = _user_id
+$$;
+
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their conversations"
+  ON public.conversations FOR SELECT
+  USING (public.conversation_role(id, auth.uid()) IS NOT NULL OR created_by = auth.uid());
+
+CREATE POLICY "Users can create conversations"
+  ON public.conversations FOR INSERT
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Owners and admins can rename conversations"
+  ON public.conversations FOR UPDATE
+  USING (public.conversation_role(id, auth.uid()) IN ('owner', 'admin'));
+
+CREATE POLICY "Members can view fellow members"
+  ON public.conversation_members FOR SELECT
+  USING (public.conversation_role(conversation_id, auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Owners and admins can add members"
+  ON public.conversation_members FOR INSERT
+  WITH CHECK (
+    (role <> 'owner' AND public.conversation_role(conversation_id, auth.uid()) IN ('owner', 'admin'))
+    OR (
+      -- The creator seeds themselves as owner of a new conversation
+      role = 'owner' AND user_id = auth.uid()
+      AND EXISTS (
+        SELECT 1 FROM public.conversations c
+        WHERE c.id = conversation_id AND c.created_by = auth.uid()
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.conversation_members m
+        WHERE m.conversation_id = conversation_members.conversation_id
+      )
+    )
+  );
+
+CREATE POLICY "Owners can change roles"
+  ON public.conversation_members FOR UPDATE
+  USING (public.conversation_role(conversation_id, auth.uid()) = 'owner');
+
+CREATE POLICY "Members can leave and admins can remove members"
+  ON public.conversation_members FOR DELETE
+  USING (
+    user_id = auth.uid()
+    OR public.conversation_role(conversation_id, auth.uid()) = 'owner'
+    OR (public.conversation_role(conversation_id, auth.uid()) = 'admin' AND role = 'member')
+  );
+
+-- Members see every wrapped copy so a sender can tell whether the current epoch
+-- was shared with someone who has since left; each copy only opens for its member.
+CREATE POLICY "Members can view wrapped keys"
+  ON public.conversation_keys FOR SELECT
+  USING (public.conversation_role(conversation_id, auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Members can distribute keys"
+  ON public.conversation_keys FOR INSERT
+  WITH CHECK (
+    wrapped_by = auth.uid()
+    AND public.conversation_role(conversation_id, auth.uid()) IS NOT NULL
+  );
+
+CREATE POLICY "Members can read group messages"
+  ON public.direct_messages FOR SELECT
+  USING (
+    conversation_id IS NOT NULL
+    AND public.conversation_role(conversation_id, auth.uid()) IS NOT NULL
+  );
+
+CREATE POLICY "Members can send group messages"
+  ON public.direct_messages FOR INSERT
+  WITH CHECK (
+    conversation_id IS NOT NULL
+    AND sender_id = auth.uid()
+    AND public.conversation_role(conversation_id, auth.uid()) IS NOT NULL
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversations;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_members;
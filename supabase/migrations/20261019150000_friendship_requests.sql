@@ -0,0 +1,36 @@
+-- Friend requests: a pending row from requester to addressee that the addressee
+-- accepts. Declining, cancelling and unfriending delete the row.
+ALTER TABLE public.friendships
+  ALTER COLUMN status SET DEFAULT 'pending',
+  ADD CONSTRAINT friendships_status_check CHECK (status IN ('pending', 'accepted')),
+  ADD CONSTRAINT friendships_not_self_check CHECK (requester_id <> addressee_id);
+
+-- One friendship per pair of users, whichever direction it was requested in
+CREATE UNIQUE INDEX IF NOT EXISTS friendships_pair_idx
+  ON public.friendships (LEAST(requester_id, addressee_id), GREATEST(requester_id, addressee_id));
+
+ALTER TABLE public.friendships ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their friendships" ON public.friendships;
+DROP POLICY IF EXISTS "Users can send friend requests" ON public.friendships;
+DROP POLICY IF EXISTS "Addressees can accept friend requests" ON public.friendships;
+DROP POLICY IF EXISTS "Either side can remove a friendship" ON public.friendships;
+
+CREATE POLICY "Users can view their friendships"
+  ON public.friendships FOR SELECT
+  USING (auth.uid() = requester_id OR auth.uid() = addressee_id);
+
+CREATE POLICY "Users can send friend requests"
+  ON public.friendships FOR INSERT
+  WITH CHECK (auth.uid() = requester_id AND status = 'pending');
+
+CREATE POLICY "Addressees can accept friend requests"
+  ON public.friendships FOR UPDATE
+  USING (auth.uid() = addressee_id)
+  WITH CHECK (auth.uid() = addressee_id);
+
+CREATE POLICY "Either side can remove a friendship"
+  ON public.friendships FOR DELETE
+  USING (auth.uid() = requester_id OR auth.uid() = addressee_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.friendships;
@@ -0,0 +1,76 @@
+-- Blocks are enforced in the database: a blocked user can't send direct messages
+-- to the blocker and can no longer read the blocker's profile, which is where
+-- status and last_seen live.
+CREATE TABLE public.user_blocks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  blocker_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+-- Muting only changes what the muting user's own client shows, so it needs no
+-- cross-user enforcement. target_id is either a user id or a conversation id.
+CREATE TABLE public.conversation_mutes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  target_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (user_id, target_id)
+);
+
+CREATE OR REPLACE FUNCTION public.has_blocked(_blocker_id UUID, _blocked_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_blocks
+    WHERE blocker_id = _blocker_id AND blocked_id = _blocked_id
+  )
+$$;
+
+ALTER TABLE public.user_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_mutes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view who they blocked"
+  ON public.user_blocks FOR SELECT
+  USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can block others"
+  ON public.user_blocks FOR INSERT
+  WITH CHECK (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can unblock"
+  ON public.user_blocks FOR DELETE
+  USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can view their mutes"
+  ON public.conversation_mutes FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mute conversations"
+  ON public.conversation_mutes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unmute conversations"
+  ON public.conversation_mutes FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Restrictive, so these apply on top of whatever permissive policies grant access
+CREATE POLICY "Blocked users cannot message the blocker"
+  ON public.direct_messages AS RESTRICTIVE FOR INSERT
+  WITH CHECK (receiver_id IS NULL OR NOT public.has_blocked(receiver_id, auth.uid()));
+
+CREATE POLICY "Blocked users cannot see the blocker's profile"
+  ON public.profiles AS RESTRICTIVE FOR SELECT
+  USING (auth.uid() IS NULL OR NOT public.has_blocked(user_id, auth.uid()));
+
+CREATE POLICY "Blocked users cannot see the blocker typing"
+  ON public.typing_status AS RESTRICTIVE FOR SELECT
+  USING (NOT public.has_blocked(user_id, auth.uid()));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_mutes;
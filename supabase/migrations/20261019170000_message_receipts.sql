@@ -0,0 +1,70 @@
+ALTER TABLE public.profiles ADD COLUMN read_receipts BOOLEAN NOT NULL DEFAULT true;
+
+-- One row per message per recipient. Rows are only written through the
+-- functions below so recipients can't forge receipts for messages they can't see.
+CREATE TABLE public.message_receipts (
+  message_id UUID NOT NULL REFERENCES public.direct_messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  delivered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  read_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX message_receipts_user_id_idx ON public.message_receipts (user_id);
+
+ALTER TABLE public.message_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Recipients and senders can view receipts"
+  ON public.message_receipts FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.direct_messages
+      WHERE direct_messages.id = message_id AND direct_messages.sender_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.mark_messages_delivered(_message_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.message_receipts (message_id, user_id)
+  SELECT m.id, auth.uid()
+  FROM public.direct_messages m
+  WHERE m.id = ANY(_message_ids)
+    AND m.sender_id <> auth.uid()
+    AND (
+      m.receiver_id = auth.uid()
+      OR public.conversation_role(m.conversation_id, auth.uid()) IS NOT NULL
+    )
+  ON CONFLICT (message_id, user_id) DO NOTHING
+$$;
+
+-- Users who turned read receipts off never write read_at, so turning them off
+-- can't be bypassed by a client that ignores the setting
+CREATE OR REPLACE FUNCTION public.mark_messages_read(_message_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.message_receipts (message_id, user_id, read_at)
+  SELECT m.id, auth.uid(), now()
+  FROM public.direct_messages m
+  WHERE m.id = ANY(_message_ids)
+    AND m.sender_id <> auth.uid()
+    AND (
+      m.receiver_id = auth.uid()
+      OR public.conversation_role(m.conversation_id, auth.uid()) IS NOT NULL
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.user_id = auth.uid() AND profiles.read_receipts
+    )
+  ON CONFLICT (message_id, user_id)
+  DO UPDATE SET read_at = COALESCE(message_receipts.read_at, EXCLUDED.read_at)
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_receipts;
@@ -0,0 +1,84 @@
+-- How far each user has read in each conversation. This is private to the
+-- reader and independent of read receipts, so unread counts keep working for
+-- users who turned receipts off. target_id is the other user's id for direct
+-- chats and the conversation id for groups.
+CREATE TABLE public.conversation_reads (
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  target_id UUID NOT NULL,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, target_id)
+);
+
+ALTER TABLE public.conversation_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their read positions"
+  ON public.conversation_reads FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their read positions"
+  ON public.conversation_reads FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can move their read positions"
+  ON public.conversation_reads FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX direct_messages_conversation_created_at_idx
+  ON public.direct_messages (conversation_id, created_at DESC);
+
+-- Latest message and unread count for every conversation the caller can see.
+-- Runs as the caller, so row-level security decides which messages count.
+CREATE OR REPLACE FUNCTION public.conversation_summaries()
+RETURNS TABLE (
+  target_id UUID,
+  message_id UUID,
+  sender_id UUID,
+  receiver_id UUID,
+  conversation_id UUID,
+  content TEXT,
+  key_epoch INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  unread_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH visible AS (
+    SELECT
+      m.*,
+      COALESCE(
+        m.conversation_id,
+        CASE WHEN m.sender_id = auth.uid() THEN m.receiver_id ELSE m.sender_id END
+      ) AS target
+    FROM public.direct_messages m
+  ),
+  latest AS (
+    SELECT DISTINCT ON (target) *
+    FROM visible
+    ORDER BY target, created_at DESC
+  ),
+  unread AS (
+    SELECT v.target, COUNT(*) AS unread_count
+    FROM visible v
+    LEFT JOIN public.conversation_reads r
+      ON r.user_id = auth.uid() AND r.target_id = v.target
+    WHERE v.sender_id <> auth.uid()
+      AND v.created_at > COALESCE(r.last_read_at, '-infinity'::timestamptz)
+    GROUP BY v.target
+  )
+  SELECT
+    latest.target,
+    latest.id,
+    latest.sender_id,
+    latest.receiver_id,
+    latest.conversation_id,
+    latest.content,
+    latest.key_epoch,
+    latest.created_at,
+    COALESCE(unread.unread_count, 0)
+  FROM latest
+  LEFT JOIN unread ON unread.target = latest.target
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_reads;
@@ -0,0 +1,145 @@
+ALTER TABLE public.direct_messages
+  ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Previous ciphertexts of edited messages. They stay encrypted under the key
+-- that originally sealed them, so only conversation members can read them.
+CREATE TABLE public.message_edits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.direct_messages(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  key_epoch INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX message_edits_message_id_idx ON public.message_edits (message_id, created_at);
+
+-- "Delete for me": the message stays for everyone else
+CREATE TABLE public.hidden_messages (
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES public.direct_messages(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, message_id)
+);
+
+ALTER TABLE public.message_edits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.hidden_messages ENABLE ROW LEVEL SECURITY;
+
+-- Visible to whoever can see the message itself
+CREATE POLICY "Conversation members can view edit history"
+  ON public.message_edits FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.direct_messages WHERE direct_messages.id = message_id));
+
+CREATE POLICY "Users can view messages they hid"
+  ON public.hidden_messages FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can hide messages they can see"
+  ON public.hidden_messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.direct_messages WHERE direct_messages.id = message_id)
+  );
+
+-- Every content change by the sender is an edit, except the one-off rewrite of
+-- legacy passphrase messages. Deleting for everyone leaves an empty tombstone
+-- and drops the history with it. Clients can't set or clear either marker.
+CREATE OR REPLACE FUNCTION public.track_message_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.edited_at := OLD.edited_at;
+    DELETE FROM public.message_edits WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content AND OLD.content NOT LIKE 'U2FsdGVkX1%' THEN
+    INSERT INTO public.message_edits (message_id, content, key_epoch, created_at)
+    VALUES (OLD.id, OLD.content, OLD.key_epoch, COALESCE(OLD.edited_at, OLD.created_at));
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_message_changes
+  BEFORE UPDATE ON public.direct_messages
+  FOR EACH ROW EXECUTE FUNCTION public.track_message_changes();
+
+-- Summaries skip messages the caller hid and report tombstones
+DROP FUNCTION IF EXISTS public.conversation_summaries();
+
+CREATE OR REPLACE FUNCTION public.conversation_summaries()
+RETURNS TABLE (
+  target_id UUID,
+  message_id UUID,
+  sender_id UUID,
+  receiver_id UUID,
+  conversation_id UUID,
+  content TEXT,
+  key_epoch INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  unread_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH visible AS (
+    SELECT
+      m.*,
+      COALESCE(
+        m.conversation_id,
+        CASE WHEN m.sender_id = auth.uid() THEN m.receiver_id ELSE m.sender_id END
+      ) AS target
+    FROM public.direct_messages m
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.user_id = auth.uid() AND h.message_id = m.id
+    )
+  ),
+  latest AS (
+    SELECT DISTINCT ON (target) *
+    FROM visible
+    ORDER BY target, created_at DESC
+  ),
+  unread AS (
+    SELECT v.target, COUNT(*) AS unread_count
+    FROM visible v
+    LEFT JOIN public.conversation_reads r
+      ON r.user_id = auth.uid() AND r.target_id = v.target
+    WHERE v.sender_id <> auth.uid()
+      AND v.deleted_at IS NULL
+      AND v.created_at > COALESCE(r.last_read_at, '-infinity'::timestamptz)
+    GROUP BY v.target
+  )
+  SELECT
+    latest.target,
+    latest.id,
+    latest.sender_id,
+    latest.receiver_id,
+    latest.conversation_id,
+    latest.content,
+    latest.key_epoch,
+    latest.created_at,
+    latest.deleted_at,
+    COALESCE(unread.unread_count, 0)
+  FROM latest
+  LEFT JOIN unread ON unread.target = latest.target
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.hidden_messages;
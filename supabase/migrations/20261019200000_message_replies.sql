@@ -0,0 +1,42 @@
+-- Replies point at their parent by id only; the quoted text is decrypted from
+-- the parent on each device and never copied into the reply
+ALTER TABLE public.direct_messages
+  ADD COLUMN reply_to_id UUID REFERENCES public.direct_messages(id) ON DELETE SET NULL;
+
+CREATE INDEX direct_messages_reply_to_id_idx ON public.direct_messages (reply_to_id);
+
+-- A reply has to quote a message from the same conversation
+CREATE OR REPLACE FUNCTION public.check_reply_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.reply_to_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.direct_messages parent
+    WHERE parent.id = NEW.reply_to_id
+      AND (
+        (NEW.conversation_id IS NOT NULL AND parent.conversation_id = NEW.conversation_id)
+        OR (
+          NEW.conversation_id IS NULL
+          AND parent.conversation_id IS NULL
+          AND LEAST(parent.sender_id, parent.receiver_id) = LEAST(NEW.sender_id, NEW.receiver_id)
+          AND GREATEST(parent.sender_id, parent.receiver_id) = GREATEST(NEW.sender_id, NEW.receiver_id)
+        )
+      )
+  ) THEN
+    RAISE EXCEPTION 'Replies must quote a message from the same conversation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_reply_parent
+  BEFORE INSERT OR UPDATE OF reply_to_id ON public.direct_messages
+  FOR EACH ROW EXECUTE FUNCTION public.check_reply_parent();
@@ -0,0 +1,32 @@
+-- One row per user per emoji per message. The whole row is the primary key so
+-- realtime DELETE events, which only carry the key under row-level security,
+-- still say which reaction went away.
+CREATE TABLE public.message_reactions (
+  message_id UUID NOT NULL REFERENCES public.direct_messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Conversation members can view reactions"
+  ON public.message_reactions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.direct_messages WHERE direct_messages.id = message_id));
+
+CREATE POLICY "Conversation members can react"
+  ON public.message_reactions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.direct_messages
+      WHERE direct_messages.id = message_id AND direct_messages.deleted_at IS NULL
+    )
+  );
+
+CREATE POLICY "Users can remove their reactions"
+  ON public.message_reactions FOR DELETE
+  USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
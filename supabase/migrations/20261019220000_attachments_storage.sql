@@ -0,0 +1,28 @@
+-- Attachments are encrypted on the client before upload, so the bucket only
+-- ever holds ciphertext. Objects live under the uploader's user id.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('attachments', 'attachments', false, 26214400)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload attachments to their folder"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Paths are random and the content is unreadable without the key carried in
+-- the message, so any signed-in user may fetch a blob
+CREATE POLICY "Authenticated users can download attachments"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'attachments');
+
+CREATE POLICY "Users can delete their attachments"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
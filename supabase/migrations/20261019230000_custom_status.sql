@@ -0,0 +1,8 @@
+-- User-set status shown next to presence. Presence never writes these columns,
+-- so going away or offline leaves them alone; expired values are ignored by clients.
+ALTER TABLE public.profiles
+  ADD COLUMN status_emoji TEXT CHECK (char_length(status_emoji) <= 16),
+  ADD COLUMN status_text TEXT CHECK (char_length(status_text) <= 100),
+  ADD COLUMN status_expires_at TIMESTAMP WITH TIME ZONE,
+  -- Notifications are held back until this time
+  ADD COLUMN dnd_until TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,67 @@
+-- last_seen moves out of profiles, which every signed-in user can read, into its
+-- own table whose select policy applies the owner's visibility setting. Rows the
+-- viewer isn't allowed to see are filtered by the database, so hidden timestamps
+-- never leave it, over the API or over realtime.
+ALTER TABLE public.profiles
+  ADD COLUMN last_seen_visibility TEXT NOT NULL DEFAULT 'everyone'
+    CHECK (last_seen_visibility IN ('everyone', 'friends', 'nobody'));
+
+CREATE TABLE public.user_last_seen (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  last_seen TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.user_last_seen (user_id, last_seen)
+SELECT user_id, last_seen FROM public.profiles WHERE last_seen IS NOT NULL;
+
+ALTER TABLE public.profiles DROP COLUMN last_seen;
+
+CREATE OR REPLACE FUNCTION public.are_friends(_user_a UUID, _user_b UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.friendships
+    WHERE status = 'accepted'
+      AND LEAST(requester_id, addressee_id) = LEAST(_user_a, _user_b)
+      AND GREATEST(requester_id, addressee_id) = GREATEST(_user_a, _user_b)
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_see_last_seen(_owner_id UUID, _viewer_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _owner_id = _viewer_id OR EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = _owner_id
+      AND NOT public.has_blocked(_owner_id, _viewer_id)
+      AND (
+        last_seen_visibility = 'everyone'
+        OR (last_seen_visibility = 'friends' AND public.are_friends(_owner_id, _viewer_id))
+      )
+  )
+$$;
+
+ALTER TABLE public.user_last_seen ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Last seen follows its owner's visibility setting"
+  ON public.user_last_seen FOR SELECT
+  USING (auth.uid() IS NOT NULL AND public.can_see_last_seen(user_id, auth.uid()));
+
+CREATE POLICY "Users can record their own last seen"
+  ON public.user_last_seen FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own last seen"
+  ON public.user_last_seen FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_last_seen;
@@ -0,0 +1,2 @@
+-- Typing indicators are realtime broadcasts now and are never stored
+DROP TABLE IF EXISTS public.typing_status;
@@ -0,0 +1,39 @@
+-- Senders may only rewrite a message's ciphertext or delete it for everyone.
+-- Without this a sender could move their own row to another receiver or group
+-- after inserting it, skipping the checks that only run on INSERT.
+CREATE OR REPLACE FUNCTION public.pin_message_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.receiver_id IS DISTINCT FROM OLD.receiver_id
+    OR NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    -- Cleared by ON DELETE SET NULL when the parent is removed
+    OR (NEW.reply_to_id IS DISTINCT FROM OLD.reply_to_id AND NEW.reply_to_id IS NOT NULL)
+  THEN
+    RAISE EXCEPTION 'Only the content of a message can be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER pin_message_columns
+  BEFORE UPDATE ON public.direct_messages
+  FOR EACH ROW EXECUTE FUNCTION public.pin_message_columns();
+
+-- The same conditions as sending: a blocked user can't change what the blocker
+-- sees, and someone who left a group can't touch its messages
+CREATE POLICY "Blocked users cannot update messages to the blocker"
+  ON public.direct_messages AS RESTRICTIVE FOR UPDATE
+  USING (receiver_id IS NULL OR NOT public.has_blocked(receiver_id, auth.uid()))
+  WITH CHECK (receiver_id IS NULL OR NOT public.has_blocked(receiver_id, auth.uid()));
+
+CREATE POLICY "Only members can update group messages"
+  ON public.direct_messages AS RESTRICTIVE FOR UPDATE
+  USING (conversation_id IS NULL OR public.conversation_role(conversation_id, auth.uid()) IS NOT NULL)
+  WITH CHECK (conversation_id IS NULL OR public.conversation_role(conversation_id, auth.uid()) IS NOT NULL);
@@ -0,0 +1,51 @@
+-- The creator used to seed their own owner row, guarded by a check for existing
+-- members that ran under row-level security. A creator who had left sees no
+-- member rows, so they could insert themselves as owner again. The owner row is
+-- now added by the database when the conversation is created, and clients can
+-- no longer insert owners at all.
+CREATE OR REPLACE FUNCTION public.conversation_has_members(_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversation_members
+    WHERE conversation_id = _conversation_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.seed_conversation_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'owner');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER seed_conversation_owner
+  AFTER INSERT ON public.conversations
+  FOR EACH ROW EXECUTE FUNCTION public.seed_conversation_owner();
+
+DROP POLICY IF EXISTS "Owners and admins can add members" ON public.conversation_members;
+
+CREATE POLICY "Owners and admins can add members"
+  ON public.conversation_members FOR INSERT
+  WITH CHECK (role <> 'owner' AND public.conversation_role(conversation_id, auth.uid()) IN ('owner', 'admin'));
+
+-- created_by only matters while the new conversation's insert returns, before
+-- anyone is a member; after that, membership alone decides
+DROP POLICY IF EXISTS "Members can view their conversations" ON public.conversations;
+
+CREATE POLICY "Members can view their conversations"
+  ON public.conversations FOR SELECT
+  USING (
+    public.conversation_role(id, auth.uid()) IS NOT NULL
+    OR (created_by = auth.uid() AND NOT public.conversation_has_members(id))
+  );
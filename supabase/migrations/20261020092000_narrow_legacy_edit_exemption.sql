@@ -0,0 +1,51 @@
+-- Only the legacy migration's rewrite skips the edited marker: the old content
+-- has to be legacy and the new one an envelope flagged as a migration. The
+-- server can't compare plaintexts, so the legacy original still goes into the
+-- history; any other change to a legacy row is recorded as a normal edit.
+CREATE OR REPLACE FUNCTION public.is_migration_envelope(_content TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  RETURN _content LIKE '{%' AND (_content::jsonb ->> 'mig') = '1';
+EXCEPTION WHEN others THEN
+  RETURN false;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.track_message_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.edited_at := OLD.edited_at;
+    DELETE FROM public.message_edits WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO public.message_edits (message_id, content, key_epoch, created_at)
+    VALUES (OLD.id, OLD.content, OLD.key_epoch, COALESCE(OLD.edited_at, OLD.created_at));
+
+    IF OLD.content LIKE 'U2FsdGVkX1%' AND public.is_migration_envelope(NEW.content) THEN
+      NEW.edited_at := OLD.edited_at;
+    ELSE
+      NEW.edited_at := now();
+    END IF;
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
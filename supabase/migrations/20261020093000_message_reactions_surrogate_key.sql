@@ -0,0 +1,11 @@
+-- Realtime sends DELETE events to every subscriber without checking row-level
+-- security, carrying the primary key. With the whole row as the key that told
+-- anyone listening who removed which emoji from which message. An opaque id
+-- says nothing; clients that could see the reaction already know its id.
+ALTER TABLE public.message_reactions
+  ADD COLUMN id UUID NOT NULL DEFAULT gen_random_uuid();
+
+ALTER TABLE public.message_reactions
+  DROP CONSTRAINT message_reactions_pkey,
+  ADD PRIMARY KEY (id),
+  ADD CONSTRAINT message_reactions_message_id_user_id_emoji_key UNIQUE (message_id, user_id, emoji);
@@ -0,0 +1,36 @@
+-- Objects now live under uploader/scope/random, where the scope names who the
+-- attachment was sent to: dm-<recipient id> or group-<conversation id>. Only
+-- the uploader and those recipients can read or list an object; before, any
+-- signed-in user could list the whole bucket. Objects from before the scope
+-- existed stay readable by their uploader only.
+CREATE OR REPLACE FUNCTION public.can_read_attachment(_name TEXT, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN (storage.foldername(_name))[1] = _user_id::text THEN true
+    WHEN (storage.foldername(_name))[2] = 'dm-' || _user_id::text THEN true
+    WHEN (storage.foldername(_name))[2] ~ '^group-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN public.conversation_role(substr((storage.foldername(_name))[2], 7)::uuid, _user_id) IS NOT NULL
+    ELSE false
+  END
+$$;
+
+DROP POLICY "Authenticated users can download attachments" ON storage.objects;
+
+CREATE POLICY "Uploaders and recipients can download attachments"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND public.can_read_attachment(name, auth.uid())
+  );
+
+-- Files are capped at 25 MB before encryption; the GCM tag adds 16 bytes, so
+-- the bucket allows a little more than that
+UPDATE storage.buckets
+SET file_size_limit = 25 * 1024 * 1024 + 1024
+WHERE id = 'attachments';
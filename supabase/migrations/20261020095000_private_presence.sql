@@ -0,0 +1,31 @@
+-- Presence moves from one public channel, where every signed-in user saw
+-- everyone, to a private topic per user: "presence:<user id>". Realtime applies
+-- these policies when a client joins, so the block rule from profiles holds for
+-- presence too, and nobody but the owner can track on their topic.
+CREATE OR REPLACE FUNCTION public.presence_topic_owner(_topic TEXT)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _topic ~ '^presence:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN substr(_topic, 10)::uuid
+  END
+$$;
+
+CREATE POLICY "Presence is hidden from blocked users"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND public.presence_topic_owner(realtime.topic()) IS NOT NULL
+    AND NOT public.has_blocked(public.presence_topic_owner(realtime.topic()), auth.uid())
+  );
+
+CREATE POLICY "Users can only track their own presence"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND public.presence_topic_owner(realtime.topic()) = auth.uid()
+  );
@@ -0,0 +1,13 @@
+-- Watching someone go offline gives away their last seen time as surely as
+-- reading the column, so presence follows the same visibility setting. That
+-- setting already hides everything from users the owner blocked.
+DROP POLICY "Presence is hidden from blocked users" ON realtime.messages;
+
+CREATE POLICY "Presence follows its owner's last seen visibility"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND public.presence_topic_owner(realtime.topic()) IS NOT NULL
+    AND public.can_see_last_seen(public.presence_topic_owner(realtime.topic()), auth.uid())
+  );
@@ -0,0 +1,42 @@
+-- Typing indicators lost their block check when typing_status was dropped for
+-- realtime broadcasts. Each sender now broadcasts on a private topic of their
+-- own, "typing:dm:<recipient id>:<sender id>" or
+-- "typing:group:<conversation id>:<sender id>". Only the sender may broadcast
+-- on it, so receivers know who is typing from the topic, and only the other
+-- side of the chat or the group's members may listen, unless either of the
+-- two blocked the other.
+CREATE OR REPLACE FUNCTION public.can_see_typing(_topic TEXT, _viewer_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _topic !~ '^typing:(dm|group):[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN false
+    WHEN public.has_blocked(split_part(_topic, ':', 4)::uuid, _viewer_id)
+      OR public.has_blocked(_viewer_id, split_part(_topic, ':', 4)::uuid)
+      THEN false
+    WHEN split_part(_topic, ':', 2) = 'dm'
+      THEN _viewer_id IN (split_part(_topic, ':', 3)::uuid, split_part(_topic, ':', 4)::uuid)
+    ELSE public.conversation_role(split_part(_topic, ':', 3)::uuid, _viewer_id) IS NOT NULL
+  END
+$$;
+
+CREATE POLICY "Typing is visible to the conversation unless blocked"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND public.can_see_typing(realtime.topic(), auth.uid())
+  );
+
+CREATE POLICY "Users can only broadcast their own typing"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'broadcast'
+    AND split_part(realtime.topic(), ':', 4) = auth.uid()::text
+    AND public.can_see_typing(realtime.topic(), auth.uid())
+  );
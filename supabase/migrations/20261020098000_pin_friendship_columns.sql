@@ -0,0 +1,31 @@
+-- Accepting is the only change an addressee can make. Without this they could
+-- point requester_id at anyone and accept, inventing a friendship the other
+-- user never asked for, which then unlocks friends-only presence and last seen.
+CREATE OR REPLACE FUNCTION public.pin_friendship_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.requester_id IS DISTINCT FROM OLD.requester_id
+    OR NEW.addressee_id IS DISTINCT FROM OLD.addressee_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  THEN
+    RAISE EXCEPTION 'Only the status of a friendship can be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER pin_friendship_columns
+  BEFORE UPDATE ON public.friendships
+  FOR EACH ROW EXECUTE FUNCTION public.pin_friendship_columns();
+
+DROP POLICY "Addressees can accept friend requests" ON public.friendships;
+
+CREATE POLICY "Addressees can accept friend requests"
+  ON public.friendships FOR UPDATE
+  USING (auth.uid() = addressee_id AND status = 'pending')
+  WITH CHECK (auth.uid() = addressee_id AND status = 'accepted');
@@ -0,0 +1,41 @@
+-- Legacy ciphertext opens with a passphrase that ships in the client, so a copy
+-- kept in the edit history would leave a migrated message readable on the
+-- server for good. The migration rewrite keeps no history, and legacy copies
+-- already saved are removed.
+CREATE OR REPLACE FUNCTION public.track_message_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.edited_at := OLD.edited_at;
+    DELETE FROM public.message_edits WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF OLD.content LIKE 'U2FsdGVkX1%' AND public.is_migration_envelope(NEW.content) THEN
+      NEW.edited_at := OLD.edited_at;
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO public.message_edits (message_id, content, key_epoch, created_at)
+    VALUES (OLD.id, OLD.content, OLD.key_epoch, COALESCE(OLD.edited_at, OLD.created_at));
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DELETE FROM public.message_edits WHERE content LIKE 'U2FsdGVkX1%';
@@ -0,0 +1,18 @@
+-- Read positions are compared with message timestamps the server assigned, so
+-- they have to come from the same clock. A device whose clock runs behind
+-- would otherwise leave messages unread, and one running ahead would mark
+-- messages read before they arrive. Whatever the client sends is replaced.
+CREATE OR REPLACE FUNCTION public.stamp_read_position()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.last_read_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_read_position
+  BEFORE INSERT OR UPDATE ON public.conversation_reads
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_read_position();
@@ -0,0 +1,75 @@
+-- New group key epochs are allocated here instead of by the client, so members
+-- rotating at the same time can't both claim the next epoch, and copies can
+-- only be handed to current members. _after_epoch is the newest epoch the
+-- caller saw when it decided to rotate (NULL for none); if another epoch has
+-- started since, this fails with unique_violation and the caller decides again.
+CREATE OR REPLACE FUNCTION public.start_group_key_epoch(
+  _conversation_id UUID,
+  _wrapped_keys JSONB,
+  _after_epoch INTEGER DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _latest INTEGER;
+  _epoch INTEGER;
+BEGIN
+  IF public.conversation_role(_conversation_id, auth.uid()) IS NULL THEN
+    RAISE EXCEPTION 'Only members can start a key epoch' USING ERRCODE = '42501';
+  END IF;
+
+  -- Rotations of one conversation run one at a time
+  PERFORM 1 FROM public.conversations WHERE id = _conversation_id FOR UPDATE;
+
+  SELECT MAX(key_epoch) INTO _latest
+  FROM public.conversation_keys
+  WHERE conversation_id = _conversation_id;
+
+  IF _latest IS DISTINCT FROM _after_epoch THEN
+    RAISE EXCEPTION 'Another key epoch has already been started' USING ERRCODE = '23505';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_wrapped_keys) AS k(member_id UUID, wrapped_key TEXT)
+    WHERE k.member_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(_wrapped_keys) AS k(member_id UUID, wrapped_key TEXT)
+    WHERE public.conversation_role(_conversation_id, k.member_id) IS NULL
+  ) THEN
+    RAISE EXCEPTION 'A key epoch has to be shared with the caller and only with members' USING ERRCODE = '42501';
+  END IF;
+
+  _epoch := COALESCE(_latest + 1, 0);
+
+  INSERT INTO public.conversation_keys (conversation_id, key_epoch, member_id, wrapped_by, wrapped_key)
+  SELECT _conversation_id, _epoch, k.member_id, auth.uid(), k.wrapped_key
+  FROM jsonb_to_recordset(_wrapped_keys) AS k(member_id UUID, wrapped_key TEXT);
+
+  RETURN _epoch;
+END;
+$$;
+
+-- Everything else only passes the newest epoch, which the sharer holds, on to
+-- another current member; a new epoch can't be invented this way
+DROP POLICY "Members can distribute keys" ON public.conversation_keys;
+
+CREATE POLICY "Key holders can share the current key"
+  ON public.conversation_keys FOR INSERT
+  WITH CHECK (
+    wrapped_by = auth.uid()
+    AND public.conversation_role(conversation_id, auth.uid()) IS NOT NULL
+    AND public.conversation_role(conversation_id, member_id) IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM public.conversation_keys held
+      WHERE held.conversation_id = conversation_keys.conversation_id
+        AND held.key_epoch = conversation_keys.key_epoch
+        AND held.member_id = auth.uid()
+    )
+    AND key_epoch = (
+      SELECT MAX(latest.key_epoch) FROM public.conversation_keys latest
+      WHERE latest.conversation_id = conversation_keys.conversation_id
+    )
+  );